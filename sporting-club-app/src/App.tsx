@@ -1,22 +1,54 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Layout from '@/components/Layout';
+import ClubStoreProvider from '@/components/ClubStoreProvider';
+import UndoHistory from '@/components/UndoHistory';
+import DashboardPage from '@/pages/DashboardPage';
 import SportsPage from '@/pages/SportsPage';
+import SportDetailPage from '@/pages/SportDetailPage';
 import MembersPage from '@/pages/MembersPage';
+import HouseholdsPage from '@/pages/HouseholdsPage';
+import ImportMembersPage from '@/pages/ImportMembersPage';
+import MemberDetailPage from '@/pages/MemberDetailPage';
 import SubscriptionsPage from '@/pages/SubscriptionsPage';
+import SchedulePage from '@/pages/SchedulePage';
+import AttendancePage from '@/pages/AttendancePage';
+import StaffPage from '@/pages/StaffPage';
+import FacilitiesPage from '@/pages/FacilitiesPage';
+import BackupPage from '@/pages/BackupPage';
+import AuditLogPage from '@/pages/AuditLogPage';
+import InvoicePage from '@/pages/InvoicePage';
+import RosterPage from '@/pages/RosterPage';
 import './index.css';
 
 function App() {
   return (
-    <Router>
-      <Layout>
-        <Routes>
-          <Route path="/" element={<SportsPage />} />
-          <Route path="/members" element={<MembersPage />} />
-          <Route path="/subscriptions" element={<SubscriptionsPage />} />
-        </Routes>
-      </Layout>
-    </Router>
+    <ClubStoreProvider>
+      <Router>
+        <Layout>
+          <Routes>
+            <Route path="/" element={<DashboardPage />} />
+            <Route path="/sports" element={<SportsPage />} />
+            <Route path="/sports/:id" element={<SportDetailPage />} />
+            <Route path="/members" element={<MembersPage />} />
+            <Route path="/members/import" element={<ImportMembersPage />} />
+            <Route path="/members/:id" element={<MemberDetailPage />} />
+            <Route path="/households" element={<HouseholdsPage />} />
+            <Route path="/subscriptions" element={<SubscriptionsPage />} />
+            <Route path="/schedule" element={<SchedulePage />} />
+            <Route path="/attendance" element={<AttendancePage />} />
+            <Route path="/staff" element={<StaffPage />} />
+            <Route path="/facilities" element={<FacilitiesPage />} />
+            <Route path="/rosters" element={<RosterPage />} />
+            <Route path="/rosters/:sportId" element={<RosterPage />} />
+            <Route path="/invoices/:id" element={<InvoicePage />} />
+            <Route path="/audit" element={<AuditLogPage />} />
+            <Route path="/backup" element={<BackupPage />} />
+          </Routes>
+        </Layout>
+      </Router>
+      <UndoHistory />
+    </ClubStoreProvider>
   );
 }
 
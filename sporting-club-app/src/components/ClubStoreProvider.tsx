@@ -0,0 +1,43 @@
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { ClubStoreContext } from '@/hooks/useSportingClub';
+import { clubStore } from '@/lib/clubStore';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RefreshCw } from 'lucide-react';
+
+interface ClubStoreProviderProps {
+  children: React.ReactNode;
+}
+
+// Opens the database once for the whole app and shares a single cache of its records with every hook
+const ClubStoreProvider: React.FC<ClubStoreProviderProps> = ({ children }) => {
+  const { status, error } = useSyncExternalStore(clubStore.subscribe, clubStore.getSnapshot);
+
+  useEffect(() => {
+    void clubStore.init();
+  }, []);
+
+  // The connection is gone, so nothing below could read or write any more
+  if (status === 'closed') {
+    return (
+      <div className="container mx-auto max-w-lg px-4 py-16">
+        <Card>
+          <CardHeader>
+            <CardTitle>Database Upgraded</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground">{error}</p>
+            <Button onClick={() => window.location.reload()} className="gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Reload
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <ClubStoreContext.Provider value={clubStore}>{children}</ClubStoreContext.Provider>;
+};
+
+export default ClubStoreProvider;
@@ -1,5 +1,8 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useActor, useClubCache } from '@/hooks/useSportingClub';
+import { Input } from '@/components/ui/input';
+import { UserCircle } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -7,13 +10,15 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
+  const { actor, setActor } = useActor();
+  const { staff } = useClubCache();
 
   const isActive = (path: string) => location.pathname === path;
 
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
-      <header className="bg-card shadow-sm border-b">
+      <header className="bg-card shadow-sm border-b print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16">
             <div className="flex items-center">
@@ -27,6 +32,16 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                     ? 'text-primary border-b-2 border-primary' 
                     : 'text-muted-foreground hover:text-foreground'
                 }`}
+              >
+                Dashboard
+              </Link>
+              <Link
+                to="/sports"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/sports') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
               >
                 Sports
               </Link>
@@ -40,6 +55,16 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               >
                 Members
               </Link>
+              <Link
+                to="/households"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/households') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Households
+              </Link>
               <Link
                 to="/subscriptions"
                 className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
@@ -50,7 +75,84 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               >
                 Subscriptions
               </Link>
+              <Link
+                to="/schedule"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/schedule') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Schedule
+              </Link>
+              <Link
+                to="/attendance"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/attendance') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Attendance
+              </Link>
+              <Link
+                to="/staff"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/staff') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Staff
+              </Link>
+              <Link
+                to="/facilities"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/facilities') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Facilities
+              </Link>
+              <Link
+                to="/audit"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/audit') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Audit Log
+              </Link>
+              <Link
+                to="/backup"
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  isActive('/backup') 
+                    ? 'text-primary border-b-2 border-primary' 
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                Backup
+              </Link>
             </nav>
+            {/* Recorded with every change in the audit log */}
+            <div className="flex items-center gap-2">
+              <UserCircle className="h-4 w-4 text-muted-foreground" />
+              <Input
+                value={actor}
+                onChange={(e) => setActor(e.target.value)}
+                placeholder="Your name"
+                list="actor-suggestions"
+                className="w-36"
+                aria-label="Acting as"
+              />
+              <datalist id="actor-suggestions">
+                {[...staff.values()].map(staffMember => (
+                  <option key={staffMember.id} value={`${staffMember.firstName} ${staffMember.lastName}`} />
+                ))}
+              </datalist>
+            </div>
           </div>
         </div>
       </header>
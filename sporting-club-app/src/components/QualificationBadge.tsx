@@ -0,0 +1,27 @@
+import React from 'react';
+import { Qualification } from '@/lib/db';
+import { qualificationStatus } from '@/lib/staff';
+import { Badge } from '@/components/ui/badge';
+
+interface QualificationBadgeProps {
+  qualification: Qualification;
+}
+
+// Orange while the certification expires within CERTIFICATION_WARNING_DAYS, red once it has expired
+const QualificationBadge: React.FC<QualificationBadgeProps> = ({ qualification }) => {
+  const status = qualificationStatus(qualification);
+  const expiry = qualification.expiresAt
+    ? ` · ${status === 'expired' ? 'expired' : 'expires'} ${qualification.expiresAt.toLocaleDateString()}`
+    : '';
+
+  return (
+    <Badge
+      variant={status === 'expired' ? 'destructive' : 'outline'}
+      className={status === 'expiring' ? 'border-orange-500 text-orange-600' : undefined}
+    >
+      {qualification.name}{expiry}
+    </Badge>
+  );
+};
+
+export default QualificationBadge;
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { useUndo } from '@/hooks/useSportingClub';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { History, Undo2, X } from 'lucide-react';
+
+// How long the toast offering to undo the latest archive, purge or cancellation stays up
+const UNDO_TOAST_MS = 8000;
+
+const pluralizeChanges = (count: number) => `${count} related change${count === 1 ? '' : 's'}`;
+
+// A toast after every archive, purge or cancellation, and the session's undo history behind a button
+const UndoHistory: React.FC = () => {
+  const { history, undo, error, isInitialized } = useUndo();
+  const [toastId, setToastId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [undoing, setUndoing] = useState(false);
+  const latest = history.length > 0 ? history[0].command : undefined;
+
+  useEffect(() => {
+    if (!latest) return;
+    const remaining = UNDO_TOAST_MS - (Date.now() - latest.performedAt.getTime());
+    if (remaining <= 0) return;
+
+    setToastId(latest.id);
+    const timer = setTimeout(() => setToastId(null), remaining);
+    return () => clearTimeout(timer);
+  }, [latest]);
+
+  const handleUndo = async (commandId: string) => {
+    setUndoing(true);
+    const result = await undo(commandId);
+    setUndoing(false);
+    if (result) setToastId(null);
+  };
+
+  if (!isInitialized || history.length === 0) return null;
+
+  const toast = history.find(entry => entry.command.id === toastId);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2 print:hidden">
+      {toast && (
+        <Card className="w-96 shadow-lg">
+          <CardContent className="flex items-center gap-3 p-4">
+            <div className="flex-1 text-sm">
+              <p className="font-medium">{toast.description}</p>
+              {toast.relatedChanges > 0 && (
+                <p className="text-muted-foreground">Along with {pluralizeChanges(toast.relatedChanges)}</p>
+              )}
+              {error && <p className="text-destructive">{error}</p>}
+            </div>
+            <Button size="sm" onClick={() => handleUndo(toast.command.id)} disabled={undoing} className="gap-1">
+              <Undo2 className="h-4 w-4" />
+              Undo
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setToastId(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {showHistory && (
+        <Card className="w-96 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-base">Undo History</CardTitle>
+            <CardDescription>Undoing an entry also undoes every entry above it</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {error && !toast && <p className="text-sm text-destructive">{error}</p>}
+            {history.map(({ command, description, relatedChanges }) => (
+              <div key={command.id} className="flex items-center justify-between gap-3 text-sm">
+                <div>
+                  <p className="font-medium">{description}</p>
+                  <p className="text-muted-foreground">
+                    {command.performedAt.toLocaleTimeString()}
+                    {relatedChanges > 0 && ` and ${pluralizeChanges(relatedChanges)}`}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleUndo(command.id)} disabled={undoing}>
+                  Undo
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => setShowHistory(!showHistory)} className="gap-2 shadow">
+        <History className="h-4 w-4" />
+        {showHistory ? 'Hide' : 'Undo history'} ({history.length})
+      </Button>
+    </div>
+  );
+};
+
+export default UndoHistory;
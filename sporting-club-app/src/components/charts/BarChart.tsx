@@ -0,0 +1,46 @@
+import React from 'react';
+import { ChartDatum } from '@/lib/statistics';
+
+interface BarChartProps {
+  data: ChartDatum[];
+  title: string;
+}
+
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 120;
+const VALUE_WIDTH = 40;
+const WIDTH = 480;
+
+// Horizontal bars, one row per datum, scaled to the largest value
+const BarChart: React.FC<BarChartProps> = ({ data, title }) => {
+  const max = Math.max(1, ...data.map(datum => datum.value));
+  const barSpace = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${Math.max(1, data.length) * ROW_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={title}
+    >
+      <title>{title}</title>
+      {data.map((datum, index) => {
+        const y = index * ROW_HEIGHT;
+        const width = (datum.value / max) * barSpace;
+        return (
+          <g key={datum.label}>
+            <text x={LABEL_WIDTH - 8} y={y + ROW_HEIGHT / 2} textAnchor="end" dominantBaseline="middle" className="fill-muted-foreground text-xs">
+              {datum.label}
+            </text>
+            <rect x={LABEL_WIDTH} y={y + 4} width={width} height={ROW_HEIGHT - 8} rx={3} className="fill-primary" />
+            <text x={LABEL_WIDTH + width + 6} y={y + ROW_HEIGHT / 2} dominantBaseline="middle" className="fill-foreground text-xs">
+              {datum.value}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
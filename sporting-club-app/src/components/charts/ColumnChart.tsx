@@ -0,0 +1,52 @@
+import React from 'react';
+import { ChartDatum } from '@/lib/statistics';
+
+interface ColumnChartProps {
+  data: ChartDatum[];
+  title: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const LABEL_HEIGHT = 24;
+const VALUE_HEIGHT = 16;
+
+// Vertical columns in the given order, for series where order matters (months, age ranges)
+const ColumnChart: React.FC<ColumnChartProps> = ({ data, title }) => {
+  const max = Math.max(1, ...data.map(datum => datum.value));
+  const slot = WIDTH / Math.max(1, data.length);
+  const plotHeight = HEIGHT - LABEL_HEIGHT - VALUE_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      <title>{title}</title>
+      <line
+        x1={0}
+        x2={WIDTH}
+        y1={HEIGHT - LABEL_HEIGHT}
+        y2={HEIGHT - LABEL_HEIGHT}
+        className="stroke-border"
+      />
+      {data.map((datum, index) => {
+        const height = (datum.value / max) * plotHeight;
+        const x = index * slot;
+        const y = HEIGHT - LABEL_HEIGHT - height;
+        return (
+          <g key={datum.label}>
+            <rect x={x + slot * 0.15} y={y} width={slot * 0.7} height={height} rx={2} className="fill-primary" />
+            {datum.value > 0 && (
+              <text x={x + slot / 2} y={y - 4} textAnchor="middle" className="fill-foreground text-xs">
+                {datum.value}
+              </text>
+            )}
+            <text x={x + slot / 2} y={HEIGHT - 6} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+              {datum.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ColumnChart;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ChartDatum } from '@/lib/statistics';
+
+interface DonutChartProps {
+  data: ChartDatum[];
+  title: string;
+  // Text in the hole, e.g. a total or a percentage
+  centerLabel?: string;
+}
+
+const SIZE = 160;
+const RADIUS = 60;
+const STROKE = 24;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Segments cycle through these; the first datum gets the primary colour
+const SEGMENT_CLASSES = ['stroke-primary', 'stroke-muted-foreground', 'stroke-destructive', 'stroke-secondary'];
+const LEGEND_CLASSES = ['bg-primary', 'bg-muted-foreground', 'bg-destructive', 'bg-secondary'];
+
+// Each segment is a dashed circle stroke offset by the segments before it
+const DonutChart: React.FC<DonutChartProps> = ({ data, title, centerLabel }) => {
+  const total = data.reduce((sum, datum) => sum + datum.value, 0);
+  const offsets = data.map((_, index) =>
+    data.slice(0, index).reduce((sum, datum) => sum + datum.value, 0)
+  );
+
+  return (
+    <div className="flex items-center gap-6">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-32 h-32 shrink-0" role="img" aria-label={title}>
+        <title>{title}</title>
+        <circle cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill="none" strokeWidth={STROKE} className="stroke-muted" />
+        {total > 0 && data.map((datum, index) => (
+          <circle
+            key={datum.label}
+            cx={SIZE / 2}
+            cy={SIZE / 2}
+            r={RADIUS}
+            fill="none"
+            strokeWidth={STROKE}
+            strokeDasharray={`${(datum.value / total) * CIRCUMFERENCE} ${CIRCUMFERENCE}`}
+            strokeDashoffset={-(offsets[index] / total) * CIRCUMFERENCE}
+            // Start at twelve o'clock rather than three
+            transform={`rotate(-90 ${SIZE / 2} ${SIZE / 2})`}
+            className={SEGMENT_CLASSES[index % SEGMENT_CLASSES.length]}
+          />
+        ))}
+        {centerLabel && (
+          <text x={SIZE / 2} y={SIZE / 2} textAnchor="middle" dominantBaseline="middle" className="fill-foreground text-xl font-bold">
+            {centerLabel}
+          </text>
+        )}
+      </svg>
+      <ul className="space-y-1 text-sm">
+        {data.map((datum, index) => (
+          <li key={datum.label} className="flex items-center gap-2">
+            <span className={`h-3 w-3 rounded-sm ${LEGEND_CLASSES[index % LEGEND_CLASSES.length]}`} />
+            <span className="text-muted-foreground">{datum.label}</span>
+            <span className="font-medium">{datum.value}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DonutChart;
@@ -1,31 +1,67 @@
-import { useState, useEffect, useCallback } from 'react';
-import { sportingClubService, SportingClubDB } from '@/lib/db';
+import { createContext, useState, useCallback, useContext, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { sportingClubService, sortByWaitlistOrder, SportingClubDB, ClubData, RestoreMode, AuditEntry, AuditLogQuery } from '@/lib/db';
+import {
+  ClubStore, toClubData, selectMemberWithSports, selectSubscriptionHistory, selectSportWithMembers, selectSportRoster,
+} from '@/lib/clubStore';
+import { computeClubStatistics } from '@/lib/statistics';
+import { computeMemberBalance, computeMemberBalances } from '@/lib/billing';
+import { findMissedStreaks } from '@/lib/attendance';
+import { describeUndoCommand, relatedChangeCount } from '@/lib/undo';
+import { AUDIT_PAGE_SIZE, describeAuditRecord } from '@/lib/audit';
 
 type Sport = SportingClubDB['sports']['value'];
 type Member = SportingClubDB['members']['value'];
-type Subscription = SportingClubDB['subscriptions']['value'];
+type Payment = SportingClubDB['payments']['value'];
+type AttendanceRecord = SportingClubDB['attendance']['value'];
+type StaffMember = SportingClubDB['staff']['value'];
+type Household = SportingClubDB['households']['value'];
+type Facility = SportingClubDB['facilities']['value'];
+type Booking = SportingClubDB['bookings']['value'];
+type Session = SportingClubDB['sessions']['value'];
+type SessionInput = Omit<Session, 'id' | 'exceptions' | 'createdAt' | 'updatedAt'>;
 
-export const useSportingClub = () => {
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+// Calendar days as YYYY-MM-DD (empty for an open end); search matches the user or the record's name
+interface AuditLogFilters {
+  fromDay?: string;
+  toDay?: string;
+  store?: AuditEntry['store'];
+  search?: string;
+}
 
-  useEffect(() => {
-    const initDB = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        await sportingClubService.init();
-        setIsInitialized(true);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to initialize database');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+export const ClubStoreContext = createContext<ClubStore | null>(null);
+
+const byName = (a: { firstName: string; lastName: string }, b: { firstName: string; lastName: string }) =>
+  `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`);
+
+// The records of one cached store as an array that only changes when the store does
+const useRecords = <T>(records: ReadonlyMap<string, T>) => useMemo(() => [...records.values()], [records]);
+
+// Cancelling an active subscription promotes waitlisted members in the same transaction,
+// so every subscription the write changed is patched in, not only the cancelled one
+async function cancelAndPromote(store: ClubStore, memberId: string, sportId: string) {
+  const { result, written } = await sportingClubService.cancelSubscription(memberId, sportId);
+  store.applyWritten(written);
+  return result;
+}
 
-    initDB();
-  }, []);
+const useClubStore = () => {
+  const store = useContext(ClubStoreContext);
+  if (!store) throw new Error('Club hooks must be used inside ClubStoreProvider');
+  return store;
+};
+
+const useClubSnapshot = () => {
+  const store = useClubStore();
+  return useSyncExternalStore(store.subscribe, store.getSnapshot);
+};
+
+// Every record the club holds, for views that combine several stores
+export const useClubCache = () => useClubSnapshot().cache;
+
+export const useSportingClub = () => {
+  const { status, error: initError } = useClubSnapshot();
+  const [error, setError] = useState<string | null>(null);
+  const isInitialized = status === 'ready';
 
   const executeOperation = useCallback(async <T>(
     operation: () => Promise<T>
@@ -46,8 +82,8 @@ export const useSportingClub = () => {
 
   return {
     isInitialized,
-    isLoading,
-    error,
+    isLoading: status === 'loading',
+    error: error ?? initError,
     setError,
     executeOperation,
   };
@@ -55,141 +91,830 @@ export const useSportingClub = () => {
 
 export const useSports = () => {
   const { executeOperation, ...rest } = useSportingClub();
-  const [sports, setSports] = useState<Sport[]>([]);
-  const [loading, setLoading] = useState(false);
+  const store = useClubStore();
+  const cache = useClubCache();
+  const allSports = useRecords(cache.sports);
+  const sports = useMemo(() => allSports.filter(sport => !sport.archivedAt), [allSports]);
+  const archivedSports = useMemo(() => allSports.filter(sport => sport.archivedAt), [allSports]);
 
   const loadSports = useCallback(async () => {
-    setLoading(true);
-    const result = await executeOperation(() => sportingClubService.getAllSports());
-    if (result) setSports(result);
-    setLoading(false);
-  }, [executeOperation]);
+    await executeOperation(() => store.refresh('sports'));
+  }, [executeOperation, store]);
 
   const addSport = useCallback(async (sportData: Omit<Sport, 'id' | 'createdAt' | 'updatedAt'>) => {
     const result = await executeOperation(() => sportingClubService.addSport(sportData));
-    if (result) {
-      await loadSports();
-    }
+    if (result) store.upsert('sports', [result]);
     return result;
-  }, [executeOperation, loadSports]);
+  }, [executeOperation, store]);
 
-  const deleteSport = useCallback(async (id: string) => {
-    const result = await executeOperation(() => sportingClubService.deleteSport(id));
-    if (result !== null) {
-      await loadSports();
-    }
+  const updateSport = useCallback(async (id: string, updates: Partial<Omit<Sport, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    return await executeOperation(async () => {
+      // A raised capacity promotes waitlisted members
+      const { result, written } = await sportingClubService.updateSport(id, updates);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const archiveSport = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.archiveSport(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const restoreSport = useCallback(async (id: string) => {
+    const result = await executeOperation(() => sportingClubService.restoreSport(id));
+    if (result) store.upsert('sports', [result]);
     return result;
-  }, [executeOperation, loadSports]);
+  }, [executeOperation, store]);
 
-  useEffect(() => {
-    if (rest.isInitialized) {
-      loadSports();
-    }
-  }, [rest.isInitialized, loadSports]);
+  const purgeSport = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.purgeSport(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const getSportDeleteImpact = useCallback(async (id: string) => {
+    return await executeOperation(() => sportingClubService.getSportDeleteImpact(id));
+  }, [executeOperation]);
 
   return {
     ...rest,
     sports,
-    loading,
+    archivedSports,
+    loading: rest.isLoading,
     loadSports,
     addSport,
-    deleteSport,
+    updateSport,
+    archiveSport,
+    restoreSport,
+    purgeSport,
+    getSportDeleteImpact,
   };
 };
 
-export const useMembers = () => {
+// Pass a status to list only members with that status
+export const useMembers = (status?: Member['status']) => {
   const { executeOperation, ...rest } = useSportingClub();
-  const [members, setMembers] = useState<Member[]>([]);
-  const [loading, setLoading] = useState(false);
+  const store = useClubStore();
+  const cache = useClubCache();
+  const allMembers = useRecords(cache.members);
+  const members = useMemo(
+    () => allMembers.filter(member => !member.archivedAt && (!status || member.status === status)),
+    [allMembers, status]
+  );
+  const archivedMembers = useMemo(() => allMembers.filter(member => member.archivedAt), [allMembers]);
 
   const loadMembers = useCallback(async () => {
-    setLoading(true);
-    const result = await executeOperation(() => sportingClubService.getAllMembers());
-    if (result) setMembers(result);
-    setLoading(false);
-  }, [executeOperation]);
+    await executeOperation(() => store.refresh('members'));
+  }, [executeOperation, store]);
 
   const addMember = useCallback(async (memberData: Omit<Member, 'id' | 'createdAt' | 'updatedAt'>) => {
     const result = await executeOperation(() => sportingClubService.addMember(memberData));
-    if (result) {
-      await loadMembers();
-    }
+    if (result) store.upsert('members', [result]);
     return result;
-  }, [executeOperation, loadMembers]);
+  }, [executeOperation, store]);
 
-  const deleteMember = useCallback(async (id: string) => {
-    const result = await executeOperation(() => sportingClubService.deleteMember(id));
-    if (result !== null) {
-      await loadMembers();
-    }
+  const importMembers = useCallback(async (membersData: Omit<Member, 'id' | 'createdAt' | 'updatedAt'>[]) => {
+    const result = await executeOperation(() => sportingClubService.importMembers(membersData));
+    if (result) store.upsert('members', result.imported);
     return result;
-  }, [executeOperation, loadMembers]);
+  }, [executeOperation, store]);
 
-  useEffect(() => {
-    if (rest.isInitialized) {
-      loadMembers();
-    }
-  }, [rest.isInitialized, loadMembers]);
+  const updateMember = useCallback(async (id: string, updates: Partial<Omit<Member, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.updateMember(id, updates);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  // Archiving promotes waitlisted members into the spots this member held
+  const archiveMember = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.archiveMember(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const restoreMember = useCallback(async (id: string) => {
+    const result = await executeOperation(() => sportingClubService.restoreMember(id));
+    if (result) store.upsert('members', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const purgeMember = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.purgeMember(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const getMemberDeleteImpact = useCallback(async (id: string) => {
+    return await executeOperation(() => sportingClubService.getMemberDeleteImpact(id));
+  }, [executeOperation]);
 
   return {
     ...rest,
     members,
-    loading,
+    archivedMembers,
+    loading: rest.isLoading,
     loadMembers,
     addMember,
-    deleteMember,
+    importMembers,
+    updateMember,
+    archiveMember,
+    restoreMember,
+    purgeMember,
+    getMemberDeleteImpact,
   };
 };
 
 export const useSubscriptions = () => {
   const { executeOperation, ...rest } = useSportingClub();
-  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
-  const [loading, setLoading] = useState(false);
+  const store = useClubStore();
+  const cache = useClubCache();
+  const allSubscriptions = useRecords(cache.subscriptions);
+  const subscriptions = useMemo(() => allSubscriptions.filter(sub => sub.status === 'active'), [allSubscriptions]);
+  const waitlist = useMemo(() => sortByWaitlistOrder(allSubscriptions), [allSubscriptions]);
 
   const loadSubscriptions = useCallback(async () => {
-    setLoading(true);
-    const result = await executeOperation(() => sportingClubService.getAllSubscriptions());
-    if (result) setSubscriptions(result.filter(sub => sub.status === 'active'));
-    setLoading(false);
-  }, [executeOperation]);
+    await executeOperation(() => store.refresh('subscriptions'));
+  }, [executeOperation, store]);
 
   const subscribeMemberToSport = useCallback(async (memberId: string, sportId: string) => {
-    const result = await executeOperation(() => 
+    const result = await executeOperation(() =>
       sportingClubService.subscribeMemberToSport(memberId, sportId)
     );
-    if (result) {
-      await loadSubscriptions();
-    }
+    if (result) store.upsert('subscriptions', [result]);
     return result;
-  }, [executeOperation, loadSubscriptions]);
+  }, [executeOperation, store]);
 
   const cancelSubscription = useCallback(async (memberId: string, sportId: string) => {
-    const result = await executeOperation(() => 
-      sportingClubService.cancelSubscription(memberId, sportId)
+    return await executeOperation(() => cancelAndPromote(store, memberId, sportId));
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    subscriptions,
+    waitlist,
+    loading: rest.isLoading,
+    loadSubscriptions,
+    subscribeMemberToSport,
+    cancelSubscription,
+  };
+};
+
+export const useBackup = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const [restoring, setRestoring] = useState(false);
+
+  const exportData = useCallback(async () => {
+    return await executeOperation(() => sportingClubService.exportData());
+  }, [executeOperation]);
+
+  const restoreData = useCallback(async (data: ClubData, mode: RestoreMode) => {
+    setRestoring(true);
+    const result = await executeOperation(async () => {
+      await sportingClubService.restoreData(data, mode);
+      await store.reload();
+      return true;
+    });
+    setRestoring(false);
+    return result;
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    restoring,
+    exportData,
+    restoreData,
+  };
+};
+
+// Rosters of one sport, or of every non-archived sport when no id is given
+export const useRosters = (sportId?: string) => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+
+  const rosters = useMemo(() => {
+    const sportIds = sportId
+      ? [sportId]
+      : [...cache.sports.values()]
+          .filter(sport => !sport.archivedAt)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(sport => sport.id);
+    return sportIds.map(id => selectSportRoster(cache, id)).filter(roster => roster !== null);
+  }, [cache, sportId]);
+
+  const loadRosters = useCallback(async () => {
+    await executeOperation(() => store.refresh('sports', 'members', 'subscriptions'));
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    rosters,
+    loading: rest.isLoading,
+    loadRosters,
+  };
+};
+
+// One member with their active sports and every subscription they ever held
+export const useMemberDetail = (memberId?: string) => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+
+  const detail = useMemo(() => {
+    const member = memberId ? selectMemberWithSports(cache, memberId) : null;
+    const history = memberId ? selectSubscriptionHistory(cache, memberId) : [];
+    const household = (member?.householdId && cache.households.get(member.householdId)) || null;
+    const memberPayments = [...cache.payments.values()].filter(payment => payment.memberId === memberId);
+    return {
+      member,
+      history,
+      household,
+      payments: memberPayments.sort((a, b) => b.paidAt.getTime() - a.paidAt.getTime()),
+      invoices: [...cache.invoices.values()]
+        .filter(invoice => invoice.memberId === memberId)
+        .sort((a, b) => b.number - a.number),
+      attendance: [...cache.attendance.values()].filter(record => record.memberId === memberId),
+      balance: member
+        ? computeMemberBalance(
+            history.map(entry => entry.subscription),
+            cache.sports,
+            memberPayments,
+            household ?? undefined
+          )
+        : null,
+    };
+  }, [cache, memberId]);
+
+  const loadMember = useCallback(async () => {
+    await executeOperation(() =>
+      store.refresh('members', 'households', 'sports', 'subscriptions', 'payments', 'invoices', 'attendance')
     );
-    if (result) {
-      await loadSubscriptions();
-    }
+  }, [executeOperation, store]);
+
+  const deletePayment = useCallback(async (id: string) => {
+    const result = await executeOperation(() => sportingClubService.deletePayment(id));
+    if (result) store.remove('payments', [result.id]);
     return result;
-  }, [executeOperation, loadSubscriptions]);
+  }, [executeOperation, store]);
 
-  const getMemberSubscriptions = useCallback(async (memberId: string) => {
-    return await executeOperation(() => sportingClubService.getMemberSubscriptions(memberId));
-  }, [executeOperation]);
+  const createInvoice = useCallback(async () => {
+    if (!memberId) return null;
+    const result = await executeOperation(() => sportingClubService.createInvoice(memberId));
+    if (result) store.upsert('invoices', [result]);
+    return result;
+  }, [executeOperation, store, memberId]);
 
-  useEffect(() => {
-    if (rest.isInitialized) {
-      loadSubscriptions();
-    }
-  }, [rest.isInitialized, loadSubscriptions]);
+  return {
+    ...rest,
+    ...detail,
+    loading: rest.isLoading,
+    loadMember,
+    deletePayment,
+    createInvoice,
+  };
+};
+
+// One sport with its roster and waitlist, plus the other sports in its category
+export const useSportDetail = (sportId?: string) => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+
+  const sport = useMemo(() => (sportId ? selectSportWithMembers(cache, sportId) : null), [cache, sportId]);
+
+  const siblings = useMemo(() => (
+    sport
+      ? [...cache.sports.values()]
+          .filter(other => other.category === sport.category && other.id !== sport.id && !other.archivedAt)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      : []
+  ), [cache.sports, sport]);
+
+  const staff = useMemo(() => (
+    [...cache.staffAssignments.values()]
+      .filter(assignment => assignment.sportId === sportId)
+      .flatMap(assignment => cache.staff.get(assignment.staffId) ?? [])
+      .sort(byName)
+  ), [cache.staffAssignments, cache.staff, sportId]);
+
+  const loadSport = useCallback(async () => {
+    await executeOperation(() => store.refresh('sports', 'members', 'subscriptions', 'staff', 'staffAssignments'));
+  }, [executeOperation, store]);
+
+  const subscribeMember = useCallback(async (memberId: string) => {
+    if (!sportId) return null;
+    const result = await executeOperation(() => sportingClubService.subscribeMemberToSport(memberId, sportId));
+    if (result) store.upsert('subscriptions', [result]);
+    return result;
+  }, [executeOperation, store, sportId]);
+
+  const cancelSubscription = useCallback(async (memberId: string) => {
+    if (!sportId) return null;
+    return await executeOperation(() => cancelAndPromote(store, memberId, sportId));
+  }, [executeOperation, store, sportId]);
 
   return {
     ...rest,
-    subscriptions,
-    loading,
-    loadSubscriptions,
-    subscribeMemberToSport,
+    sport,
+    siblings,
+    staff,
+    loading: rest.isLoading,
+    loadSport,
+    subscribeMember,
     cancelSubscription,
-    getMemberSubscriptions,
+  };
+};
+
+export const useClubStatistics = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+
+  const statistics = useMemo(
+    () => (rest.isInitialized ? computeClubStatistics(toClubData(cache)) : null),
+    [cache, rest.isInitialized]
+  );
+
+  const loadStatistics = useCallback(async () => {
+    await executeOperation(() => store.reload());
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    statistics,
+    loading: rest.isLoading,
+    loadStatistics,
+  };
+};
+
+// Outstanding and overdue balances of every member, recomputed whenever a store they depend on changes
+export const useBalances = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+  const sports = useRecords(cache.sports);
+  const subscriptions = useRecords(cache.subscriptions);
+  const payments = useRecords(cache.payments);
+  const members = useRecords(cache.members);
+  const households = useRecords(cache.households);
+
+  const balances = useMemo(
+    () => computeMemberBalances({ sports, subscriptions, payments, members, households }),
+    [sports, subscriptions, payments, members, households]
+  );
+
+  const loadBalances = useCallback(async () => {
+    await executeOperation(() => store.refresh('sports', 'subscriptions', 'payments', 'members', 'households'));
+  }, [executeOperation, store]);
+
+  const recordPayment = useCallback(async (payment: Omit<Payment, 'id' | 'memberId' | 'createdAt'>) => {
+    const result = await executeOperation(() => sportingClubService.recordPayment(payment));
+    if (result) store.upsert('payments', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    balances,
+    loading: rest.isLoading,
+    loadBalances,
+    recordPayment,
+  };
+};
+
+export const useInvoice = (invoiceId?: string) => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+  const invoice = (invoiceId && cache.invoices.get(invoiceId)) || null;
+
+  const loadInvoice = useCallback(async () => {
+    await executeOperation(() => store.refresh('invoices'));
+  }, [executeOperation, store]);
+
+  const payInvoice = useCallback(async (details: Pick<Payment, 'paidAt' | 'method' | 'reference'>) => {
+    if (!invoiceId) return null;
+    return await executeOperation(async () => {
+      // One payment was booked per invoice line
+      const { result, written } = await sportingClubService.payInvoice(invoiceId, details);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store, invoiceId]);
+
+  return {
+    ...rest,
+    invoice,
+    loading: rest.isLoading,
+    loadInvoice,
+    payInvoice,
+  };
+};
+
+// Every recurring training session, with their holiday exceptions
+export const useSessions = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+  const sessions = useRecords(cache.sessions);
+
+  const loadSessions = useCallback(async () => {
+    await executeOperation(() => store.refresh('sessions'));
+  }, [executeOperation, store]);
+
+  const addSession = useCallback(async (session: SessionInput) => {
+    const result = await executeOperation(() => sportingClubService.addSession(session));
+    if (result) store.upsert('sessions', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const updateSession = useCallback(async (id: string, updates: Partial<SessionInput>) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.updateSession(id, updates);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.deleteSession(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const setSessionException = useCallback(async (id: string, day: string, cancelled: boolean) => {
+    const result = await executeOperation(() => sportingClubService.setSessionException(id, day, cancelled));
+    if (result) store.upsert('sessions', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const addHoliday = useCallback(async (day: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.addHoliday(day);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    sessions,
+    loading: rest.isLoading,
+    loadSessions,
+    addSession,
+    updateSession,
+    deleteSession,
+    setSessionException,
+    addHoliday,
+  };
+};
+
+// One session occurrence with the sport's current roster, the marks taken so far,
+// and the members club-wide who missed MISSED_SESSIONS_ALERT sessions in a row
+export const useCheckIn = (sessionId?: string, day?: string) => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+  const allAttendance = useRecords(cache.attendance);
+
+  const session = (sessionId && cache.sessions.get(sessionId)) || null;
+  const sport = useMemo(
+    () => (session && day ? selectSportWithMembers(cache, session.sportId) : null),
+    [cache, session, day]
+  );
+  const records = useMemo(
+    () => (session && day ? allAttendance.filter(record => record.sessionId === session.id && record.day === day) : []),
+    [allAttendance, session, day]
+  );
+  const missedStreaks = useMemo(() => findMissedStreaks(allAttendance), [allAttendance]);
+
+  const loadCheckIn = useCallback(async () => {
+    await executeOperation(() => store.refresh('sessions', 'sports', 'members', 'subscriptions', 'attendance'));
+  }, [executeOperation, store]);
+
+  const saveAttendance = useCallback(async (marks: Array<Pick<AttendanceRecord, 'memberId' | 'status'>>) => {
+    if (!sessionId || !day) return null;
+    const result = await executeOperation(() => sportingClubService.recordAttendance(sessionId, day, marks));
+    if (result) store.upsert('attendance', result);
+    return result;
+  }, [executeOperation, store, sessionId, day]);
+
+  return {
+    ...rest,
+    session,
+    sport,
+    records,
+    missedStreaks,
+    loading: rest.isLoading,
+    loadCheckIn,
+    saveAttendance,
+  };
+};
+
+// All staff with their sport assignments
+export const useStaff = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+  const allStaff = useRecords(cache.staff);
+  const staff = useMemo(() => [...allStaff].sort(byName), [allStaff]);
+  const assignments = useRecords(cache.staffAssignments);
+
+  const loadStaff = useCallback(async () => {
+    await executeOperation(() => store.refresh('staff', 'staffAssignments'));
+  }, [executeOperation, store]);
+
+  const addStaff = useCallback(async (staffData: Omit<StaffMember, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const result = await executeOperation(() => sportingClubService.addStaff(staffData));
+    if (result) store.upsert('staff', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const updateStaff = useCallback(async (id: string, updates: Partial<Omit<StaffMember, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.updateStaff(id, updates);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  // Their sport assignments are deleted with them
+  const deleteStaff = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.deleteStaff(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const assignToSport = useCallback(async (staffId: string, sportId: string) => {
+    const result = await executeOperation(() => sportingClubService.assignStaffToSport(staffId, sportId));
+    if (result) store.upsert('staffAssignments', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const unassignFromSport = useCallback(async (staffId: string, sportId: string) => {
+    const result = await executeOperation(() => sportingClubService.unassignStaffFromSport(staffId, sportId));
+    if (result) store.remove('staffAssignments', [result.id]);
+    return result;
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    staff,
+    assignments,
+    loading: rest.isLoading,
+    loadStaff,
+    addStaff,
+    updateStaff,
+    deleteStaff,
+    assignToSport,
+    unassignFromSport,
+  };
+};
+
+// Households with their members and every subscription those members hold
+export const useHouseholds = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+  const allHouseholds = useRecords(cache.households);
+  const allMembers = useRecords(cache.members);
+  const subscriptions = useRecords(cache.subscriptions);
+  const households = useMemo(() => [...allHouseholds].sort((a, b) => a.name.localeCompare(b.name)), [allHouseholds]);
+  const members = useMemo(
+    () => allMembers.filter(member => member.householdId && !member.archivedAt).sort(byName),
+    [allMembers]
+  );
+
+  const loadHouseholds = useCallback(async () => {
+    await executeOperation(() => store.refresh('households', 'members', 'subscriptions'));
+  }, [executeOperation, store]);
+
+  const addHousehold = useCallback(async (householdData: Omit<Household, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const result = await executeOperation(() => sportingClubService.addHousehold(householdData));
+    if (result) store.upsert('households', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const updateHousehold = useCallback(async (id: string, updates: Partial<Omit<Household, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.updateHousehold(id, updates);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const deleteHousehold = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      // Its members stay, detached from the household
+      const { result, written } = await sportingClubService.deleteHousehold(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    households,
+    members,
+    subscriptions,
+    loading: rest.isLoading,
+    loadHouseholds,
+    addHousehold,
+    updateHousehold,
+    deleteHousehold,
+  };
+};
+
+export const useFacilities = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const cache = useClubCache();
+  const allFacilities = useRecords(cache.facilities);
+  const allBookings = useRecords(cache.bookings);
+  const facilities = useMemo(() => [...allFacilities].sort((a, b) => a.name.localeCompare(b.name)), [allFacilities]);
+  const bookings = useMemo(
+    () => [...allBookings].sort((a, b) => a.day.localeCompare(b.day) || a.startTime.localeCompare(b.startTime)),
+    [allBookings]
+  );
+
+  const loadFacilities = useCallback(async () => {
+    await executeOperation(() => store.refresh('facilities', 'bookings'));
+  }, [executeOperation, store]);
+
+  const addFacility = useCallback(async (facilityData: Omit<Facility, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const result = await executeOperation(() => sportingClubService.addFacility(facilityData));
+    if (result) store.upsert('facilities', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const updateFacility = useCallback(async (id: string, updates: Partial<Omit<Facility, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.updateFacility(id, updates);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  // Its bookings are deleted with it
+  const deleteFacility = useCallback(async (id: string) => {
+    return await executeOperation(async () => {
+      const { result, written } = await sportingClubService.deleteFacility(id);
+      store.applyWritten(written);
+      return result;
+    });
+  }, [executeOperation, store]);
+
+  const addBooking = useCallback(async (bookingData: Omit<Booking, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const result = await executeOperation(() => sportingClubService.addBooking(bookingData));
+    if (result) store.upsert('bookings', [result]);
+    return result;
+  }, [executeOperation, store]);
+
+  const deleteBooking = useCallback(async (id: string) => {
+    const result = await executeOperation(() => sportingClubService.deleteBooking(id));
+    if (result) store.remove('bookings', [result.id]);
+    return result;
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    facilities,
+    bookings,
+    loading: rest.isLoading,
+    loadFacilities,
+    addFacility,
+    updateFacility,
+    deleteFacility,
+    addBooking,
+    deleteBooking,
+  };
+};
+
+// Archives, purges and cancellations of this session that can still be reverted, newest first
+export const useUndo = () => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const store = useClubStore();
+  const { undoHistory, cache } = useClubSnapshot();
+
+  const history = useMemo(() => undoHistory.map(command => ({
+    command,
+    description: describeUndoCommand(command, cache),
+    relatedChanges: relatedChangeCount(command),
+  })), [undoHistory, cache]);
+
+  // Commands recorded after this one are undone first
+  const undo = useCallback(async (commandId: string) => {
+    return await executeOperation(async () => {
+      await store.undo(commandId);
+      return true;
+    });
+  }, [executeOperation, store]);
+
+  return {
+    ...rest,
+    history,
+    undo,
+  };
+};
+
+// The name recorded with every change made in this browser
+export const useActor = () => {
+  const store = useClubStore();
+  const { actor } = useClubSnapshot();
+  const setActor = useCallback((name: string) => store.setActor(name), [store]);
+
+  return { actor, setActor };
+};
+
+// Audit entries between two calendar days (YYYY-MM-DD, both included, empty for no bound), newest first.
+// Read again after every change to the club's data, from this tab or another.
+export const useAuditLog = ({ fromDay = '', toDay = '', store, search = '' }: AuditLogFilters) => {
+  const { executeOperation, ...rest } = useSportingClub();
+  const cache = useClubCache();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [limit, setLimit] = useState(AUDIT_PAGE_SIZE);
+  const [hasMore, setHasMore] = useState(false);
+  // Record names are matched against the latest cache without making every write a new query
+  const cacheRef = useRef(cache);
+  // The query the shown entries were read with, and the time of the newest one
+  const loaded = useRef<{ query: AuditLogQuery; newestAt?: Date } | null>(null);
+
+  useEffect(() => {
+    cacheRef.current = cache;
+  }, [cache]);
+
+  const query = useMemo<AuditLogQuery>(() => {
+    const needle = search.trim().toLowerCase();
+    return {
+      from: fromDay ? new Date(`${fromDay}T00:00:00`) : undefined,
+      to: toDay ? new Date(`${toDay}T23:59:59.999`) : undefined,
+      store,
+      matches: needle
+        ? entry => entry.actor.toLowerCase().includes(needle) ||
+            describeAuditRecord(entry, cacheRef.current).toLowerCase().includes(needle)
+        : undefined,
+    };
+  }, [fromDay, toDay, store, search]);
+
+  // One entry past the limit tells whether there are more
+  useEffect(() => {
+    let current = true;
+    void executeOperation(() => sportingClubService.getAuditLog({ ...query, limit: limit + 1 })).then(result => {
+      if (current && result) {
+        loaded.current = { query, newestAt: result[0]?.at };
+        setEntries(result.slice(0, limit));
+        setHasMore(result.length > limit);
+      }
+    });
+    return () => {
+      current = false;
+    };
+  }, [executeOperation, query, limit]);
+
+  // Every write adds entries: read only those since the newest one shown, and put them in front
+  useEffect(() => {
+    const shown = loaded.current;
+    if (!shown || shown.query !== query) return;
+    const since = shown.newestAt && (!query.from || shown.newestAt > query.from) ? shown.newestAt : query.from;
+    let current = true;
+    void executeOperation(() => sportingClubService.getAuditLog({ ...query, from: since })).then(result => {
+      if (!current || !result || result.length === 0 || loaded.current !== shown) return;
+      loaded.current = { query, newestAt: result[0].at };
+      // Entries recorded at the same time as the newest shown one are read again
+      setEntries(previous => {
+        const shownIds = new Set(previous.map(entry => entry.id));
+        return [...result.filter(entry => !shownIds.has(entry.id)), ...previous];
+      });
+    });
+    return () => {
+      current = false;
+    };
+  }, [executeOperation, query, cache]);
+
+  const loadOlder = useCallback(() => setLimit(previous => previous + AUDIT_PAGE_SIZE), []);
+
+  return {
+    ...rest,
+    entries,
+    hasMore,
+    loadOlder,
+    cache,
   };
 };
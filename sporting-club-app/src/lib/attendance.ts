@@ -0,0 +1,65 @@
+import type { SportingClubDB } from '@/lib/db';
+
+type AttendanceRecord = SportingClubDB['attendance']['value'];
+type AttendanceStatus = AttendanceRecord['status'];
+
+interface AttendanceSummary {
+  present: number;
+  absent: number;
+  excused: number;
+  // Share of non-excused sessions attended, or null before any were recorded
+  rate: number | null;
+  missedInARow: number;
+}
+
+// Members who missed this many recorded sessions in a row are flagged for follow-up
+export const MISSED_SESSIONS_ALERT = 3;
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  absent: 'Absent',
+  excused: 'Excused',
+};
+
+// Most recent first. Occurrences on the same day fall back to the order they were first recorded in.
+export function newestFirst(records: AttendanceRecord[]) {
+  return [...records].sort((a, b) =>
+    b.day.localeCompare(a.day) || b.createdAt.getTime() - a.createdAt.getTime()
+  );
+}
+
+// Absences since the last session attended. Excused sessions neither extend nor break the run.
+export function countMissedInARow(records: AttendanceRecord[]) {
+  let missed = 0;
+  for (const record of newestFirst(records)) {
+    if (record.status === 'present') break;
+    if (record.status === 'absent') missed++;
+  }
+  return missed;
+}
+
+export function summarizeAttendance(records: AttendanceRecord[]): AttendanceSummary {
+  const count = (status: AttendanceStatus) => records.filter(record => record.status === status).length;
+  const present = count('present');
+  const absent = count('absent');
+
+  return {
+    present,
+    absent,
+    excused: count('excused'),
+    rate: present + absent > 0 ? present / (present + absent) : null,
+    missedInARow: countMissedInARow(records),
+  };
+}
+
+// Run of missed sessions keyed by member id, for every member at or above the threshold
+export function findMissedStreaks(records: AttendanceRecord[], threshold = MISSED_SESSIONS_ALERT) {
+  const memberIds = new Set(records.map(record => record.memberId));
+  return new Map(
+    [...memberIds]
+      .map(memberId => [memberId, countMissedInARow(records.filter(record => record.memberId === memberId))] as const)
+      .filter(([, missed]) => missed >= threshold)
+  );
+}
+
+export type { AttendanceStatus, AttendanceSummary };
@@ -0,0 +1,98 @@
+import type { AuditEntry } from '@/lib/db';
+import type { ClubCache } from '@/lib/clubStore';
+import { formatEditField } from '@/lib/memberTimeline';
+import { formatInvoiceNumber } from '@/lib/invoices';
+import { WEEKDAY_NAMES } from '@/lib/schedule';
+
+interface AuditFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+// Entries the audit log page reads at a time, newest first
+export const AUDIT_PAGE_SIZE = 100;
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntry['store'], string> = {
+  sports: 'Sport',
+  members: 'Member',
+  subscriptions: 'Subscription',
+  payments: 'Payment',
+  invoices: 'Invoice',
+  sessions: 'Session',
+  attendance: 'Attendance',
+  staff: 'Staff member',
+  staffAssignments: 'Staff assignment',
+  households: 'Household',
+  facilities: 'Facility',
+  bookings: 'Booking',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+// 'cancelSubscription' -> 'Cancel subscription'
+export function formatOperation(operation: string) {
+  const words = operation.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Every field the entry kept, with its value before and after the change
+export function listAuditChanges(entry: AuditEntry): AuditFieldChange[] {
+  return Object.keys({ ...entry.before, ...entry.after }).map(field => ({
+    field: formatEditField(field),
+    from: formatAuditValue(entry.before?.[field]),
+    to: formatAuditValue(entry.after?.[field]),
+  }));
+}
+
+// A name for the changed record. Records that still exist are read from the cache, deleted ones
+// from the values the entry kept; references to deleted records fall back to their kind.
+export function describeAuditRecord(entry: AuditEntry, cache: ClubCache): string {
+  const record: Record<string, unknown> = {
+    ...entry.before,
+    ...entry.after,
+    ...cache[entry.store].get(entry.recordId),
+  };
+  const text = (field: string) => String(record[field] ?? '');
+
+  const person = (name?: { firstName: string; lastName: string }) => name && `${name.firstName} ${name.lastName}`;
+  const member = () => person(cache.members.get(text('memberId'))) ?? 'a deleted member';
+  const sport = () => cache.sports.get(text('sportId'))?.name ?? 'a deleted sport';
+
+  switch (entry.store) {
+    case 'sports':
+    case 'households':
+    case 'facilities':
+      return text('name');
+    case 'members':
+    case 'staff':
+      return `${text('firstName')} ${text('lastName')}`;
+    case 'subscriptions':
+      return `${sport()} for ${member()}`;
+    case 'payments':
+      return `Payment by ${member()}`;
+    case 'invoices':
+      return typeof record.number === 'number' ? formatInvoiceNumber(record.number) : 'Invoice';
+    case 'sessions':
+      return `${sport()} on ${WEEKDAY_NAMES[Number(record.weekday)] ?? ''} at ${text('startTime')}`;
+    case 'attendance':
+      return `${member()} at ${sport()} on ${text('day')}`;
+    case 'staffAssignments':
+      return `${person(cache.staff.get(text('staffId'))) ?? 'A deleted staff member'} for ${sport()}`;
+    case 'bookings':
+      return `${cache.facilities.get(text('facilityId'))?.name ?? 'A deleted facility'} for ${sport()} on ${text('day')}`;
+  }
+}
+
+export type { AuditFieldChange };
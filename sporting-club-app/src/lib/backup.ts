@@ -0,0 +1,395 @@
+import { z } from 'zod';
+import { ClubData, RestoreMode } from '@/lib/db';
+import { LATEST_DB_VERSION } from '@/lib/migrations';
+import { describeBooking, findBookingConflicts } from '@/lib/facilities';
+import { ATTENDANCE_STATUSES, FACILITY_KINDS, PAYMENT_METHODS, STAFF_ROLES } from '@/lib/schemas';
+
+const BACKUP_APP = 'sporting-club-app';
+const BACKUP_FORMAT_VERSION = 1;
+
+interface BackupConflict {
+  store: keyof ClubData;
+  id: string;
+  message: string;
+}
+
+// Dates are written as ISO strings by JSON.stringify and revived here
+const isoDate = z.iso.datetime().transform(value => new Date(value));
+
+const sportSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  category: z.string(),
+  maxMembers: z.number().int().positive().optional(),
+  feeCents: z.number().int().positive().optional(),
+  billingPeriod: z.enum(['monthly', 'annual']).optional(),
+  feeHistory: z.array(z.object({
+    until: isoDate,
+    feeCents: z.number().int().positive().optional(),
+    billingPeriod: z.enum(['monthly', 'annual']).optional(),
+  })).optional(),
+  archivedAt: isoDate.optional(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const memberSchema = z.object({
+  id: z.string().min(1),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string().optional(),
+  phone: z.string(),
+  householdId: z.string().optional(),
+  dateOfBirth: isoDate,
+  address: z.string(),
+  membershipDate: isoDate,
+  status: z.enum(['active', 'inactive']),
+  archivedAt: isoDate.optional(),
+  edits: z.array(z.object({
+    editedAt: isoDate,
+    changes: z.array(z.object({ field: z.string(), from: z.string(), to: z.string() })),
+  })).optional(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const subscriptionSchema = z.object({
+  id: z.string().min(1),
+  memberId: z.string(),
+  sportId: z.string(),
+  subscriptionDate: isoDate,
+  status: z.enum(['active', 'waitlisted', 'cancelled']),
+  waitlistedAt: isoDate.optional(),
+  cancelledAt: isoDate.optional(),
+  // Backups taken before schema version 2 have no period history
+  history: z.array(z.object({ startDate: isoDate, endDate: isoDate })).default([]),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const paymentSchema = z.object({
+  id: z.string().min(1),
+  memberId: z.string(),
+  subscriptionId: z.string(),
+  amountCents: z.number().int().positive(),
+  paidAt: isoDate,
+  method: z.enum(PAYMENT_METHODS),
+  reference: z.string(),
+  createdAt: isoDate,
+});
+
+const invoiceSchema = z.object({
+  id: z.string().min(1),
+  number: z.number().int().positive(),
+  memberId: z.string(),
+  billTo: z.object({ name: z.string(), email: z.string(), address: z.string() }),
+  issuedAt: isoDate,
+  lines: z.array(z.object({
+    subscriptionId: z.string(),
+    sportId: z.string(),
+    description: z.string(),
+    periodStart: isoDate,
+    periodEnd: isoDate.optional(),
+    amountCents: z.number().int().positive(),
+  })),
+  totalCents: z.number().int().nonnegative(),
+  status: z.enum(['issued', 'paid']),
+  paidAt: isoDate.optional(),
+  paymentIds: z.array(z.string()),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const sessionSchema = z.object({
+  id: z.string().min(1),
+  sportId: z.string(),
+  weekday: z.number().int().min(0).max(6),
+  startTime: z.string(),
+  endTime: z.string(),
+  location: z.string(),
+  coach: z.string(),
+  exceptions: z.array(z.iso.date()),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const attendanceSchema = z.object({
+  id: z.string().min(1),
+  sessionId: z.string(),
+  sportId: z.string(),
+  memberId: z.string(),
+  day: z.iso.date(),
+  status: z.enum(ATTENDANCE_STATUSES),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const staffSchema = z.object({
+  id: z.string().min(1),
+  firstName: z.string(),
+  lastName: z.string(),
+  role: z.enum(STAFF_ROLES),
+  email: z.string(),
+  phone: z.string(),
+  qualifications: z.array(z.object({ name: z.string(), expiresAt: isoDate.optional() })),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const staffAssignmentSchema = z.object({
+  id: z.string().min(1),
+  staffId: z.string(),
+  sportId: z.string(),
+  createdAt: isoDate,
+});
+
+const householdSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  contactName: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  discountPercent: z.number().int().min(1).max(100).optional(),
+  discountHistory: z.array(z.object({
+    until: isoDate,
+    discountPercent: z.number().int().min(1).max(100).optional(),
+  })).optional(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const facilitySchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  kind: z.enum(FACILITY_KINDS),
+  description: z.string(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const bookingSchema = z.object({
+  id: z.string().min(1),
+  facilityId: z.string(),
+  sportId: z.string(),
+  sessionId: z.string().optional(),
+  recurrence: z.enum(['once', 'weekly']),
+  day: z.iso.date(),
+  until: z.iso.date().optional(),
+  startTime: z.string(),
+  endTime: z.string(),
+  note: z.string(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const backupSchema = z.object({
+  app: z.literal(BACKUP_APP),
+  formatVersion: z.literal(BACKUP_FORMAT_VERSION),
+  schemaVersion: z.number().int().positive().max(LATEST_DB_VERSION, 'Backup was created by a newer version of the app'),
+  exportedAt: isoDate,
+  data: z.object({
+    sports: z.array(sportSchema),
+    members: z.array(memberSchema),
+    subscriptions: z.array(subscriptionSchema),
+    // Backups taken before schema version 3 have no payments
+    payments: z.array(paymentSchema).default([]),
+    // Backups taken before schema version 4 have no invoices
+    invoices: z.array(invoiceSchema).default([]),
+    // Backups taken before schema version 5 have no sessions
+    sessions: z.array(sessionSchema).default([]),
+    // Backups taken before schema version 6 have no attendance
+    attendance: z.array(attendanceSchema).default([]),
+    // Backups taken before schema version 7 have no staff
+    staff: z.array(staffSchema).default([]),
+    staffAssignments: z.array(staffAssignmentSchema).default([]),
+    // Backups taken before schema version 9 have no households
+    households: z.array(householdSchema).default([]),
+    // Backups taken before schema version 8 have no facilities
+    facilities: z.array(facilitySchema).default([]),
+    bookings: z.array(bookingSchema).default([]),
+  }),
+});
+
+export function serializeBackup(data: ClubData): string {
+  return JSON.stringify({
+    app: BACKUP_APP,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: LATEST_DB_VERSION,
+    exportedAt: new Date(),
+    data,
+  }, null, 2);
+}
+
+export function parseBackup(json: string): { data: ClubData; exportedAt: Date } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  const result = backupSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid backup file at "${issue.path.join('.') || 'root'}": ${issue.message}`);
+  }
+
+  return { data: result.data.data, exportedAt: result.data.exportedAt };
+}
+
+// Finds records that would violate the database's unique indexes or leave dangling references
+export function findRestoreConflicts(backup: ClubData, current: ClubData, mode: RestoreMode): BackupConflict[] {
+  const conflicts: BackupConflict[] = [];
+
+  // In merge mode, current records survive unless the backup overwrites them by id
+  const backupMemberIds = new Set(backup.members.map(member => member.id));
+  const backupSubscriptionIds = new Set(backup.subscriptions.map(sub => sub.id));
+  const keptMembers = mode === 'merge' ? current.members.filter(member => !backupMemberIds.has(member.id)) : [];
+  const keptSports = mode === 'merge' ? current.sports : [];
+  const keptSubscriptions = mode === 'merge' ? current.subscriptions.filter(sub => !backupSubscriptionIds.has(sub.id)) : [];
+
+  const householdIds = new Set([...(mode === 'merge' ? current.households : []), ...backup.households].map(household => household.id));
+  const emails = new Map(keptMembers.flatMap(member => (member.email ? [[member.email.toLowerCase(), member.id] as const] : [])));
+  for (const member of backup.members) {
+    if (member.householdId !== undefined && !householdIds.has(member.householdId)) {
+      conflicts.push({ store: 'members', id: member.id, message: `Unknown household id ${member.householdId}` });
+    }
+    // Only household members may go without an email of their own
+    if (member.email === undefined) {
+      if (member.householdId === undefined) {
+        conflicts.push({ store: 'members', id: member.id, message: 'No email and no household' });
+      }
+      continue;
+    }
+
+    const email = member.email.toLowerCase();
+    const owner = emails.get(email);
+    if (owner !== undefined && owner !== member.id) {
+      conflicts.push({ store: 'members', id: member.id, message: `Duplicate email ${member.email}` });
+    }
+    emails.set(email, member.id);
+  }
+
+  const sportIds = new Set([...keptSports, ...backup.sports].map(sport => sport.id));
+  const memberIds = new Set([...keptMembers, ...backup.members].map(member => member.id));
+  const pairs = new Map(keptSubscriptions.map(sub => [`${sub.memberId}/${sub.sportId}`, sub.id]));
+
+  for (const subscription of backup.subscriptions) {
+    if (!sportIds.has(subscription.sportId)) {
+      conflicts.push({ store: 'subscriptions', id: subscription.id, message: `Unknown sport id ${subscription.sportId}` });
+    }
+    if (!memberIds.has(subscription.memberId)) {
+      conflicts.push({ store: 'subscriptions', id: subscription.id, message: `Unknown member id ${subscription.memberId}` });
+    }
+
+    const pair = `${subscription.memberId}/${subscription.sportId}`;
+    const owner = pairs.get(pair);
+    if (owner !== undefined && owner !== subscription.id) {
+      conflicts.push({ store: 'subscriptions', id: subscription.id, message: 'Duplicate subscription for the same member and sport' });
+    }
+    pairs.set(pair, subscription.id);
+  }
+
+  const subscriptionIds = new Set([...keptSubscriptions, ...backup.subscriptions].map(sub => sub.id));
+  for (const payment of backup.payments) {
+    if (!subscriptionIds.has(payment.subscriptionId)) {
+      conflicts.push({ store: 'payments', id: payment.id, message: `Unknown subscription id ${payment.subscriptionId}` });
+    }
+  }
+
+  const backupInvoiceIds = new Set(backup.invoices.map(invoice => invoice.id));
+  const keptInvoices = mode === 'merge' ? current.invoices.filter(invoice => !backupInvoiceIds.has(invoice.id)) : [];
+  const invoiceNumbers = new Map(keptInvoices.map(invoice => [invoice.number, invoice.id]));
+  for (const invoice of backup.invoices) {
+    if (!memberIds.has(invoice.memberId)) {
+      conflicts.push({ store: 'invoices', id: invoice.id, message: `Unknown member id ${invoice.memberId}` });
+    }
+
+    const owner = invoiceNumbers.get(invoice.number);
+    if (owner !== undefined && owner !== invoice.id) {
+      conflicts.push({ store: 'invoices', id: invoice.id, message: `Duplicate invoice number ${invoice.number}` });
+    }
+    invoiceNumbers.set(invoice.number, invoice.id);
+  }
+
+  for (const session of backup.sessions) {
+    if (!sportIds.has(session.sportId)) {
+      conflicts.push({ store: 'sessions', id: session.id, message: `Unknown sport id ${session.sportId}` });
+    }
+  }
+
+  const backupSessionIds = new Set(backup.sessions.map(session => session.id));
+  const keptSessions = mode === 'merge' ? current.sessions.filter(session => !backupSessionIds.has(session.id)) : [];
+  const sessionIds = new Set([...keptSessions, ...backup.sessions].map(session => session.id));
+  const backupRecordIds = new Set(backup.attendance.map(record => record.id));
+  const keptRecords = mode === 'merge' ? current.attendance.filter(record => !backupRecordIds.has(record.id)) : [];
+  const occurrences = new Map(keptRecords.map(record => [`${record.sessionId}/${record.day}/${record.memberId}`, record.id]));
+  for (const record of backup.attendance) {
+    if (!sessionIds.has(record.sessionId)) {
+      conflicts.push({ store: 'attendance', id: record.id, message: `Unknown session id ${record.sessionId}` });
+    }
+    if (!memberIds.has(record.memberId)) {
+      conflicts.push({ store: 'attendance', id: record.id, message: `Unknown member id ${record.memberId}` });
+    }
+
+    const occurrence = `${record.sessionId}/${record.day}/${record.memberId}`;
+    const owner = occurrences.get(occurrence);
+    if (owner !== undefined && owner !== record.id) {
+      conflicts.push({ store: 'attendance', id: record.id, message: 'Duplicate attendance for the same member and session day' });
+    }
+    occurrences.set(occurrence, record.id);
+  }
+
+  const backupStaffIds = new Set(backup.staff.map(staffMember => staffMember.id));
+  const keptStaff = mode === 'merge' ? current.staff.filter(staffMember => !backupStaffIds.has(staffMember.id)) : [];
+  const staffIds = new Set([...keptStaff, ...backup.staff].map(staffMember => staffMember.id));
+  const backupAssignmentIds = new Set(backup.staffAssignments.map(assignment => assignment.id));
+  const keptAssignments = mode === 'merge'
+    ? current.staffAssignments.filter(assignment => !backupAssignmentIds.has(assignment.id))
+    : [];
+  const assignmentPairs = new Map(keptAssignments.map(assignment => [`${assignment.staffId}/${assignment.sportId}`, assignment.id]));
+  for (const assignment of backup.staffAssignments) {
+    if (!staffIds.has(assignment.staffId)) {
+      conflicts.push({ store: 'staffAssignments', id: assignment.id, message: `Unknown staff id ${assignment.staffId}` });
+    }
+    if (!sportIds.has(assignment.sportId)) {
+      conflicts.push({ store: 'staffAssignments', id: assignment.id, message: `Unknown sport id ${assignment.sportId}` });
+    }
+
+    const pair = `${assignment.staffId}/${assignment.sportId}`;
+    const owner = assignmentPairs.get(pair);
+    if (owner !== undefined && owner !== assignment.id) {
+      conflicts.push({ store: 'staffAssignments', id: assignment.id, message: 'Duplicate assignment for the same staff member and sport' });
+    }
+    assignmentPairs.set(pair, assignment.id);
+  }
+
+  const backupFacilityIds = new Set(backup.facilities.map(facility => facility.id));
+  const keptFacilities = mode === 'merge' ? current.facilities.filter(facility => !backupFacilityIds.has(facility.id)) : [];
+  const facilityIds = new Set([...keptFacilities, ...backup.facilities].map(facility => facility.id));
+  const backupBookingIds = new Set(backup.bookings.map(booking => booking.id));
+  const keptBookings = mode === 'merge' ? current.bookings.filter(booking => !backupBookingIds.has(booking.id)) : [];
+  const checkedBookings = [...keptBookings];
+  for (const booking of backup.bookings) {
+    if (!facilityIds.has(booking.facilityId)) {
+      conflicts.push({ store: 'bookings', id: booking.id, message: `Unknown facility id ${booking.facilityId}` });
+    }
+    if (!sportIds.has(booking.sportId)) {
+      conflicts.push({ store: 'bookings', id: booking.id, message: `Unknown sport id ${booking.sportId}` });
+    }
+    if (booking.sessionId !== undefined && !sessionIds.has(booking.sessionId)) {
+      conflicts.push({ store: 'bookings', id: booking.id, message: `Unknown session id ${booking.sessionId}` });
+    }
+
+    const [overlap] = findBookingConflicts(booking, checkedBookings);
+    if (overlap) {
+      conflicts.push({ store: 'bookings', id: booking.id, message: `Double-books its facility ${describeBooking(overlap)}` });
+    }
+    checkedBookings.push(booking);
+  }
+
+  return conflicts;
+}
+
+export type { BackupConflict };
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { SportingClubDB } from '@/lib/db';
+import { currentBillingCycle, feeOn, subscriptionCharges } from '@/lib/billing';
+import { buildInvoiceLines, withoutInvoicedCycles } from '@/lib/invoices';
+
+type Sport = SportingClubDB['sports']['value'];
+type Subscription = SportingClubDB['subscriptions']['value'];
+type Household = SportingClubDB['households']['value'];
+type Invoice = SportingClubDB['invoices']['value'];
+
+const CREATED = new Date(2025, 0, 1);
+
+const sport = (overrides: Partial<Sport>): Sport => ({
+  id: 'tennis', name: 'Tennis', description: '', category: 'Racquet Sports', createdAt: CREATED, updatedAt: CREATED,
+  ...overrides,
+});
+
+const household = (overrides: Partial<Household>): Household => ({
+  id: 'doe', name: 'Doe', contactName: 'Jane Doe', email: '', phone: '', createdAt: CREATED, updatedAt: CREATED,
+  ...overrides,
+});
+
+// Active since 10 January 2025
+const subscription: Subscription = {
+  id: 'sub-1',
+  memberId: 'jane',
+  sportId: 'tennis',
+  subscriptionDate: new Date(2025, 0, 10),
+  status: 'active',
+  history: [],
+  createdAt: CREATED,
+  updatedAt: CREATED,
+};
+
+const invoice = (lines: Invoice['lines']): Invoice => ({
+  id: 'inv', number: 1, memberId: 'jane', billTo: { name: 'Jane Doe', email: '', address: '' }, issuedAt: CREATED,
+  lines, totalCents: 0, status: 'issued', paymentIds: [], createdAt: CREATED, updatedAt: CREATED,
+});
+
+const amounts = (charges: Array<{ amountCents: number }>) => charges.map(charge => charge.amountCents);
+
+describe('subscriptionCharges', () => {
+  it('charges every cycle at the current fee when it never changed', () => {
+    const charges = subscriptionCharges(subscription, sport({ feeCents: 3000, billingPeriod: 'monthly' }), new Date(2025, 2, 15));
+
+    expect(amounts(charges)).toEqual([3000, 3000, 3000]);
+    expect(charges.map(charge => charge.dueDate)).toEqual([
+      new Date(2025, 0, 10), new Date(2025, 1, 10), new Date(2025, 2, 10),
+    ]);
+  });
+
+  it('keeps the fee that was in force when each cycle fell due', () => {
+    const raised = sport({
+      feeCents: 4000,
+      billingPeriod: 'monthly',
+      feeHistory: [{ until: new Date(2025, 1, 20), feeCents: 3000, billingPeriod: 'monthly' }],
+    });
+
+    expect(amounts(subscriptionCharges(subscription, raised, new Date(2025, 3, 15)))).toEqual([3000, 3000, 4000, 4000]);
+  });
+
+  it('keeps the family discount that was in force when each cycle fell due', () => {
+    const fee = sport({ feeCents: 3000, billingPeriod: 'monthly' });
+    const doe = household({ discountPercent: 20, discountHistory: [{ until: new Date(2025, 1, 20), discountPercent: 10 }] });
+
+    expect(amounts(subscriptionCharges(subscription, fee, new Date(2025, 2, 15), doe))).toEqual([2700, 2700, 2400]);
+  });
+
+  it('charges a one-off fee once, at the amount in force when the subscription started', () => {
+    const changed = sport({ feeCents: 9000, feeHistory: [{ until: new Date(2025, 1, 1), feeCents: 5000 }] });
+
+    expect(amounts(subscriptionCharges(subscription, changed, new Date(2025, 5, 1)))).toEqual([5000]);
+  });
+
+  it('starts billing cycles when a one-off fee turns into a periodic one', () => {
+    const switched = sport({
+      feeCents: 3000,
+      billingPeriod: 'monthly',
+      feeHistory: [{ until: new Date(2025, 2, 5), feeCents: 5000 }],
+    });
+    const charges = subscriptionCharges(subscription, switched, new Date(2025, 3, 15));
+
+    expect(amounts(charges)).toEqual([5000, 3000, 3000]);
+    expect(charges.map(charge => charge.dueDate)).toEqual([
+      new Date(2025, 0, 10), new Date(2025, 2, 5), new Date(2025, 3, 5),
+    ]);
+  });
+});
+
+describe('currentBillingCycle', () => {
+  // Monthly until 5 March 2025, annual from then on
+  const switched = sport({
+    feeCents: 30000,
+    billingPeriod: 'annual',
+    feeHistory: [{ until: new Date(2025, 2, 5), feeCents: 3000, billingPeriod: 'monthly' }],
+  });
+
+  it('follows the billing period in force when each cycle began', () => {
+    const asOf = new Date(2025, 3, 15);
+    const charges = subscriptionCharges(subscription, switched, asOf);
+
+    expect(amounts(charges)).toEqual([3000, 3000, 30000]);
+    expect(currentBillingCycle(subscription, switched, asOf)).toEqual({
+      startDate: charges[2].dueDate,
+      endDate: new Date(2026, 2, 10),
+      feeCents: 30000,
+      billingPeriod: 'annual',
+    });
+  });
+
+  it('invoices each cycle the member is charged for exactly once', () => {
+    const sportsById = new Map([[switched.id, switched]]);
+    const invoiced: Invoice[] = [];
+    for (const asOf of [new Date(2025, 0, 20), new Date(2025, 1, 20), new Date(2025, 2, 8), new Date(2025, 3, 15)]) {
+      invoiced.push(invoice(withoutInvoicedCycles(buildInvoiceLines([subscription], sportsById, asOf), invoiced)));
+    }
+
+    const lines = invoiced.flatMap(({ lines }) => lines);
+    const charges = subscriptionCharges(subscription, switched, new Date(2025, 3, 15));
+    expect(lines.map(line => line.periodStart)).toEqual(charges.map(charge => charge.dueDate));
+    expect(amounts(lines)).toEqual(amounts(charges));
+  });
+});
+
+describe('feeOn', () => {
+  it('reads the earlier fee before a change and the current one from it on', () => {
+    const changed = sport({ feeCents: 4000, feeHistory: [{ until: new Date(2025, 1, 20), feeCents: 3000 }] });
+
+    expect(feeOn(changed, new Date(2025, 1, 19)).feeCents).toBe(3000);
+    expect(feeOn(changed, new Date(2025, 1, 20)).feeCents).toBe(4000);
+  });
+});
@@ -0,0 +1,216 @@
+import type { ClubData, PastFee, SportingClubDB } from '@/lib/db';
+import { discountOn, memberHouseholds } from '@/lib/households';
+
+type Sport = SportingClubDB['sports']['value'];
+type Household = SportingClubDB['households']['value'];
+type Subscription = SportingClubDB['subscriptions']['value'];
+type Payment = SportingClubDB['payments']['value'];
+
+interface Charge {
+  subscriptionId: string;
+  sportId: string;
+  dueDate: Date;
+  amountCents: number;
+}
+
+interface BillingCycle {
+  startDate: Date;
+  // Undefined for a one-off fee, which has a single open-ended cycle
+  endDate?: Date;
+  feeCents?: number;
+  billingPeriod?: Sport['billingPeriod'];
+}
+
+interface MemberBalance {
+  chargedCents: number;
+  paidCents: number;
+  // Charged minus paid; negative when the member paid ahead
+  balanceCents: number;
+  // Part of the balance that fell due more than PAYMENT_GRACE_DAYS ago
+  overdueCents: number;
+}
+
+export const CURRENCY = 'EUR';
+
+// Days after a charge falls due before an unpaid charge counts as overdue
+export const PAYMENT_GRACE_DAYS = 14;
+
+export const PAYMENT_METHOD_LABELS: Record<SportingClubDB['payments']['value']['method'], string> = {
+  cash: 'Cash',
+  transfer: 'Bank transfer',
+  card: 'Card',
+};
+
+export const BILLING_PERIOD_MONTHS: Record<NonNullable<Sport['billingPeriod']>, number> = {
+  monthly: 1,
+  annual: 12,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatMoney(cents: number) {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: CURRENCY }).format(cents / 100);
+}
+
+export function formatFee(sport: Pick<Sport, 'feeCents' | 'billingPeriod'>) {
+  if (sport.feeCents === undefined) return null;
+  const amount = formatMoney(sport.feeCents);
+  switch (sport.billingPeriod) {
+    case 'monthly':
+      return `${amount} / month`;
+    case 'annual':
+      return `${amount} / year`;
+    default:
+      return `${amount} one-off`;
+  }
+}
+
+// Past periods first, then the current one (open-ended while active)
+export function getSubscriptionPeriods(subscription: Subscription): Array<{ startDate: Date; endDate?: Date }> {
+  return [
+    ...subscription.history,
+    ...(subscription.status === 'active' || subscription.cancelledAt
+      ? [{ startDate: subscription.subscriptionDate, endDate: subscription.cancelledAt }]
+      : []),
+  ];
+}
+
+// Rounded to whole cents
+export function applyDiscount(cents: number, discountPercent = 0) {
+  return Math.round(cents * (100 - discountPercent) / 100);
+}
+
+// Same day of month, clamped so a subscription started on the 31st is billed on the last day of shorter months
+function addMonths(date: Date, months: number) {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+}
+
+// The fee the sport charged on the date: its current one, or the earlier one still in force then
+export function feeOn(sport: Sport, date: Date): Omit<PastFee, 'until'> & { until?: Date } {
+  return sport.feeHistory?.find(past => date < past.until) ?? sport;
+}
+
+// The billing cycles of one subscription period that began by asOf, each with the fee in force when it began.
+// One-off fees have a cycle when the first period starts; periodic fees one per billing period held.
+function periodCycles(
+  sport: Sport,
+  period: { startDate: Date; endDate?: Date },
+  isFirstPeriod: boolean,
+  asOf: Date
+): BillingCycle[] {
+  const cycles: BillingCycle[] = [];
+  // Cycles are counted from the period start, or from the fee change that ended a one-off fee.
+  // Stepping from that start each time keeps month-end clamping from drifting.
+  let cycleStart = period.startDate;
+  let months = 0;
+  let atPeriodStart = true;
+  for (;;) {
+    const startDate = months === 0 ? cycleStart : addMonths(cycleStart, months);
+    // A cycle starting on or after the end of the period was never held
+    if (startDate > asOf || (period.endDate && startDate >= period.endDate)) break;
+
+    const fee = feeOn(sport, startDate);
+    if (fee.billingPeriod) {
+      months += BILLING_PERIOD_MONTHS[fee.billingPeriod];
+      cycles.push({
+        startDate, endDate: addMonths(cycleStart, months), feeCents: fee.feeCents, billingPeriod: fee.billingPeriod,
+      });
+    } else {
+      if (isFirstPeriod && atPeriodStart) cycles.push({ startDate, feeCents: fee.feeCents });
+      // Nothing more falls due until the one-off fee is replaced
+      if (!fee.until) break;
+      cycleStart = fee.until;
+      months = 0;
+    }
+    atPeriodStart = false;
+  }
+  return cycles;
+}
+
+// Charges that have fallen due by asOf, each at the fee and family discount in force on its due date.
+// One-off fees are charged when the first period starts; periodic fees at the start of every
+// billing cycle that begins while the subscription holds a spot.
+export function subscriptionCharges(
+  subscription: Subscription,
+  sport: Sport | undefined,
+  asOf: Date,
+  household?: Household
+): Charge[] {
+  if (!sport) return [];
+  return getSubscriptionPeriods(subscription).flatMap((period, index) =>
+    periodCycles(sport, period, index === 0, asOf).flatMap(({ startDate, feeCents }) => feeCents
+      ? [{
+          subscriptionId: subscription.id,
+          sportId: sport.id,
+          dueDate: startDate,
+          amountCents: applyDiscount(feeCents, discountOn(household, startDate)),
+        }]
+      : [])
+  );
+}
+
+// The billing cycle of an active subscription that contains asOf, when it carries a fee.
+// Walks the same cycles as subscriptionCharges, so each cycle starts on the due date of its charge.
+export function currentBillingCycle(
+  subscription: Subscription,
+  sport: Sport | undefined,
+  asOf: Date
+): BillingCycle | null {
+  if (subscription.status !== 'active' || !sport) return null;
+  const periods = getSubscriptionPeriods(subscription);
+  const cycles = periodCycles(sport, periods[periods.length - 1], periods.length === 1, asOf);
+  const cycle = cycles[cycles.length - 1];
+  // The last cycle has ended when a one-off fee replaced the periodic one after it began
+  if (!cycle?.feeCents || (cycle.endDate && cycle.endDate <= asOf)) return null;
+  return cycle;
+}
+
+export function computeMemberBalance(
+  subscriptions: Subscription[],
+  sportsById: ReadonlyMap<string, Sport>,
+  payments: Payment[],
+  household?: Household,
+  asOf = new Date()
+): MemberBalance {
+  const charges = subscriptions.flatMap(sub => subscriptionCharges(sub, sportsById.get(sub.sportId), asOf, household));
+  const chargedCents = charges.reduce((sum, charge) => sum + charge.amountCents, 0);
+  const paidCents = payments.reduce((sum, payment) => sum + payment.amountCents, 0);
+
+  // Payments settle the oldest charges first, so only what is left of the overdue charges is overdue
+  const overdueBefore = asOf.getTime() - PAYMENT_GRACE_DAYS * DAY_MS;
+  const overdueChargedCents = charges
+    .filter(charge => charge.dueDate.getTime() <= overdueBefore)
+    .reduce((sum, charge) => sum + charge.amountCents, 0);
+
+  return {
+    chargedCents,
+    paidCents,
+    balanceCents: chargedCents - paidCents,
+    overdueCents: Math.max(0, overdueChargedCents - paidCents),
+  };
+}
+
+// Balances keyed by member id, for every member with a subscription or a payment
+export function computeMemberBalances(
+  data: Pick<ClubData, 'sports' | 'subscriptions' | 'payments' | 'members' | 'households'>,
+  asOf = new Date()
+): Map<string, MemberBalance> {
+  const sportsById = new Map(data.sports.map(sport => [sport.id, sport]));
+  const households = memberHouseholds(data.members, data.households);
+  const memberIds = new Set([...data.subscriptions, ...data.payments].map(record => record.memberId));
+
+  return new Map([...memberIds].map(memberId => [
+    memberId,
+    computeMemberBalance(
+      data.subscriptions.filter(sub => sub.memberId === memberId),
+      sportsById,
+      data.payments.filter(payment => payment.memberId === memberId),
+      households.get(memberId),
+      asOf
+    ),
+  ]));
+}
+
+export type { Charge, MemberBalance };
@@ -0,0 +1,263 @@
+import { sportingClubService, sortByWaitlistOrder, CLUB_DATA_STORES } from '@/lib/db';
+import type { ClubChange, ClubData, UndoCommand, UndoEntry, WrittenRecord } from '@/lib/db';
+import { getSubscriptionPeriods } from '@/lib/billing';
+import type { SportRoster } from '@/lib/roster';
+import type { SubscriptionHistoryEntry } from '@/lib/memberTimeline';
+
+type ClubStoreName = keyof ClubData;
+type ClubRecord<K extends ClubStoreName> = ClubData[K][number];
+
+// Every store of the club as a map keyed by record id. A write replaces only the maps it touches,
+// so anything derived from an untouched store keeps its identity.
+type ClubCache = { readonly [K in ClubStoreName]: ReadonlyMap<string, ClubRecord<K>> };
+
+interface ClubStoreState {
+  // closed: another tab upgraded the database schema and this tab has to reload
+  status: 'idle' | 'loading' | 'ready' | 'error' | 'closed';
+  error: string | null;
+  cache: ClubCache;
+  // Undoable commands of this session, newest first
+  undoHistory: UndoCommand[];
+  // Who is making changes in this browser, as recorded in the audit log
+  actor: string;
+}
+
+// How many archives, purges and cancellations stay undoable
+export const UNDO_HISTORY_SIZE = 10;
+
+const ACTOR_STORAGE_KEY = 'sporting-club-actor';
+
+type SportWithMembers = NonNullable<ReturnType<typeof selectSportWithMembers>>;
+type MemberWithSports = NonNullable<ReturnType<typeof selectMemberWithSports>>;
+
+function indexById<T extends { id: string }>(records: T[]): Map<string, T> {
+  return new Map(records.map(record => [record.id, record]));
+}
+
+function toCache(data: Partial<ClubData>): Partial<ClubCache> {
+  return Object.fromEntries(
+    Object.entries(data).map(([name, records]) => [name, indexById(records as Array<{ id: string }>)])
+  ) as Partial<ClubCache>;
+}
+
+const emptyCache = () => toCache(Object.fromEntries(CLUB_DATA_STORES.map(name => [name, []]))) as ClubCache;
+
+// Holds one copy of the club's data for the whole app. Hooks read it through useSyncExternalStore
+// and patch it with the records a write returns, instead of each reloading its own copy.
+class ClubStore {
+  private state: ClubStoreState = {
+    status: 'idle',
+    error: null,
+    cache: emptyCache(),
+    undoHistory: [],
+    actor: localStorage.getItem(ACTOR_STORAGE_KEY) ?? '',
+  };
+  private readonly listeners = new Set<() => void>();
+  private initialization: Promise<void> | null = null;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.state;
+
+  // Opens and seeds the database, then reads every store once. Later calls share the first run.
+  init() {
+    this.initialization ??= this.load();
+    return this.initialization;
+  }
+
+  private async load() {
+    this.setState({ status: 'loading', error: null });
+    sportingClubService.setActor(this.state.actor);
+    try {
+      await sportingClubService.init();
+      sportingClubService.onRemoteChange(changes => void this.applyRemoteChanges(changes));
+      sportingClubService.onUndoable(command => this.setState({
+        undoHistory: [command, ...this.state.undoHistory].slice(0, UNDO_HISTORY_SIZE),
+      }));
+      sportingClubService.onVersionChange(() => this.setState({
+        status: 'closed',
+        error: 'The database was upgraded in another tab. Reload this page to continue.',
+      }));
+      const data = await sportingClubService.exportData();
+      this.setState({ status: 'ready', cache: toCache(data) as ClubCache });
+    } catch (err) {
+      this.setState({ status: 'error', error: err instanceof Error ? err.message : 'Failed to initialize database' });
+    }
+  }
+
+  // Remembered in this browser, so the name only has to be given once
+  setActor(actor: string) {
+    localStorage.setItem(ACTOR_STORAGE_KEY, actor);
+    sportingClubService.setActor(actor);
+    this.setState({ actor });
+  }
+
+  // Re-reads whole stores, for explicit reloads and for stores another tab rewrote
+  async refresh(...names: ClubStoreName[]) {
+    const data = await sportingClubService.exportStores(names);
+    this.setCache(toCache(data));
+  }
+
+  async reload() {
+    await this.refresh(...CLUB_DATA_STORES);
+  }
+
+  // Writes from other tabs: deleted records are dropped, written ones re-read by id, reset stores re-read whole
+  private async applyRemoteChanges(changes: ClubChange[]) {
+    if (this.state.status !== 'ready') return;
+
+    const resets = new Set<ClubStoreName>();
+    // The last operation on a record wins
+    const latest = new Map<ClubStoreName, Map<string, 'put' | 'delete'>>();
+    for (const change of changes) {
+      if (change.operation === 'reset') {
+        resets.add(change.store);
+      } else {
+        const operations = latest.get(change.store) ?? new Map<string, 'put' | 'delete'>();
+        latest.set(change.store, operations.set(change.id, change.operation));
+      }
+    }
+
+    try {
+      if (resets.size > 0) await this.refresh(...resets);
+      for (const [name, operations] of latest) {
+        if (resets.has(name)) continue;
+        const ids = [...operations.keys()];
+        const written = await sportingClubService.getRecords(name, ids.filter(id => operations.get(id) === 'put'));
+        const writtenIds = new Set(written.map(record => record.id));
+        this.remove(name, ids.filter(id => !writtenIds.has(id)));
+        this.upsert(name, written);
+      }
+    } catch (err) {
+      this.setState({ error: err instanceof Error ? err.message : 'Failed to apply changes from another tab' });
+    }
+  }
+
+  // Reverts the command and every command recorded after it, newest first, since later ones may build on it
+  async undo(commandId: string) {
+    const index = this.state.undoHistory.findIndex(command => command.id === commandId);
+    for (const command of this.state.undoHistory.slice(0, index + 1)) {
+      await sportingClubService.undo(command);
+      this.restoreEntries(command.entries);
+      this.setState({ undoHistory: this.state.undoHistory.filter(other => other.id !== command.id) });
+    }
+  }
+
+  private restoreEntries(entries: UndoEntry[]) {
+    this.applyWritten(entries.map(({ store, id, before }) => ({ store, id, record: before })));
+  }
+
+  // Patches in every record a write returned as written: put ones replace the cached copy, deleted ones are dropped
+  applyWritten(written: WrittenRecord[]) {
+    for (const name of new Set(written.map(entry => entry.store))) {
+      const inStore = written.filter(entry => entry.store === name);
+      this.remove(name, inStore.filter(entry => !entry.record).map(entry => entry.id));
+      this.upsert(name, inStore.flatMap(entry => entry.record ?? []) as ClubData[typeof name]);
+    }
+  }
+
+  upsert<K extends ClubStoreName>(name: K, records: ClubRecord<K>[]) {
+    if (records.length === 0) return;
+    const next = new Map(this.state.cache[name]);
+    for (const record of records) {
+      next.set(record.id, record);
+    }
+    this.setCache({ [name]: next } as Partial<ClubCache>);
+  }
+
+  remove<K extends ClubStoreName>(name: K, ids: string[]) {
+    if (ids.length === 0) return;
+    const next = new Map(this.state.cache[name]);
+    for (const id of ids) {
+      next.delete(id);
+    }
+    this.setCache({ [name]: next } as Partial<ClubCache>);
+  }
+
+  private setCache(changes: Partial<ClubCache>) {
+    this.setState({ cache: { ...this.state.cache, ...changes } });
+  }
+
+  private setState(changes: Partial<ClubStoreState>) {
+    this.state = { ...this.state, ...changes };
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+// The cache as plain record arrays, shaped like a backup
+function toClubData(cache: ClubCache): ClubData {
+  return Object.fromEntries(
+    CLUB_DATA_STORES.map(name => [name, [...cache[name].values()]])
+  ) as unknown as ClubData;
+}
+
+// Views joining several stores, read from the cache
+
+function selectMemberWithSports(cache: ClubCache, memberId: string) {
+  const member = cache.members.get(memberId);
+  if (!member) return null;
+
+  const subscriptions = [...cache.subscriptions.values()]
+    .filter(sub => sub.memberId === memberId && sub.status === 'active');
+
+  return {
+    ...member,
+    sports: subscriptions.flatMap(sub => cache.sports.get(sub.sportId) ?? []),
+    subscriptions,
+  };
+}
+
+function selectSubscriptionHistory(cache: ClubCache, memberId: string): SubscriptionHistoryEntry[] {
+  return [...cache.subscriptions.values()]
+    .filter(subscription => subscription.memberId === memberId)
+    .map(subscription => ({
+      subscription,
+      sport: cache.sports.get(subscription.sportId),
+      periods: getSubscriptionPeriods(subscription),
+    }));
+}
+
+function selectSportWithMembers(cache: ClubCache, sportId: string) {
+  const sport = cache.sports.get(sportId);
+  if (!sport) return null;
+
+  const subscriptions = [...cache.subscriptions.values()].filter(sub => sub.sportId === sportId);
+  const activeSubscriptions = subscriptions.filter(sub => sub.status === 'active');
+
+  return {
+    ...sport,
+    members: activeSubscriptions.flatMap(sub => cache.members.get(sub.memberId) ?? []),
+    subscriptions: activeSubscriptions,
+    memberCount: activeSubscriptions.length,
+    availableSpots: sport.maxMembers === undefined ? null : Math.max(0, sport.maxMembers - activeSubscriptions.length),
+    waitlist: sortByWaitlistOrder(subscriptions),
+  };
+}
+
+// Active members of a sport paired with their subscription, sorted by name
+function selectSportRoster(cache: ClubCache, sportId: string): SportRoster | null {
+  const sport = selectSportWithMembers(cache, sportId);
+  if (!sport) return null;
+
+  const entries = sport.subscriptions
+    .flatMap(subscription => {
+      const member = cache.members.get(subscription.memberId);
+      return member ? [{ member, subscription }] : [];
+    })
+    .sort((a, b) =>
+      `${a.member.lastName} ${a.member.firstName}`.localeCompare(`${b.member.lastName} ${b.member.firstName}`)
+    );
+
+  return { sport, entries };
+}
+
+export const clubStore = new ClubStore();
+export { ClubStore, toClubData, selectMemberWithSports, selectSubscriptionHistory, selectSportWithMembers, selectSportRoster };
+export type { ClubStoreName, ClubCache, ClubStoreState, SportWithMembers, MemberWithSports };
@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sportingClubService } from '@/lib/db';
+
+const MEMBER = {
+  firstName: 'Jane',
+  lastName: 'Doe',
+  email: 'jane@example.com',
+  phone: '555-0100',
+  dateOfBirth: new Date('1990-04-01'),
+  address: '1 Main St',
+  membershipDate: new Date('2024-01-10'),
+  status: 'active',
+} as const;
+
+// Every test starts from the sports init() seeds into an empty database
+beforeEach(async () => {
+  await sportingClubService.init();
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  sportingClubService.setActor('');
+  await sportingClubService.clearAllData();
+  await sportingClubService.close();
+});
+
+describe('updates', () => {
+  const created = new Date('2025-03-01T10:00:00Z');
+  const edited = new Date('2025-03-02T10:00:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(created);
+  });
+
+  it('moves updatedAt and keeps createdAt when a sport is edited', async () => {
+    const sport = await sportingClubService.addSport({ name: 'Rowing', description: 'Rowing on the river', category: 'Water Sports' });
+    vi.setSystemTime(edited);
+
+    const { result: updated } = await sportingClubService.updateSport(sport.id, {
+      name: 'Sculling',
+      createdAt: edited,
+    } as Parameters<typeof sportingClubService.updateSport>[1]);
+
+    expect(updated).toMatchObject({ name: 'Sculling', createdAt: created, updatedAt: edited });
+    expect(await sportingClubService.getSport(sport.id)).toMatchObject({ createdAt: created, updatedAt: edited });
+  });
+
+  it('moves updatedAt and keeps createdAt when a member is edited', async () => {
+    const member = await sportingClubService.addMember(MEMBER);
+    vi.setSystemTime(edited);
+
+    const { result: updated } = await sportingClubService.updateMember(member.id, {
+      email: 'jane.doe@example.com',
+      createdAt: edited,
+    } as Parameters<typeof sportingClubService.updateMember>[1]);
+
+    expect(updated).toMatchObject({ email: 'jane.doe@example.com', createdAt: created, updatedAt: edited });
+    expect(await sportingClubService.getMember(member.id)).toMatchObject({ createdAt: created, updatedAt: edited });
+  });
+
+  it('keeps the fee a sport charged before it was changed', async () => {
+    const sport = await sportingClubService.addSport({
+      name: 'Rowing', description: 'Rowing on the river', category: 'Water Sports', feeCents: 3000, billingPeriod: 'monthly',
+    });
+    vi.setSystemTime(edited);
+
+    await sportingClubService.updateSport(sport.id, { description: 'Rowing on the lake' });
+    const { result: updated } = await sportingClubService.updateSport(sport.id, { feeCents: 4000 });
+
+    expect(updated.feeHistory).toEqual([{ until: edited, feeCents: 3000, billingPeriod: 'monthly' }]);
+  });
+});
+
+// The entries added since the log held `count` of them, newest first
+async function auditEntriesSince(count: number) {
+  const entries = await sportingClubService.getAuditLog();
+  return entries.slice(0, entries.length - count);
+}
+
+describe('audit log', () => {
+  it('records one deletion per record when clearing the data', async () => {
+    const member = await sportingClubService.addMember(MEMBER);
+    const sports = await sportingClubService.getAllSports();
+    const before = (await sportingClubService.getAuditLog()).length;
+
+    await sportingClubService.clearAllData();
+
+    const entries = await auditEntriesSince(before);
+    expect(entries).toHaveLength(sports.length + 1);
+    expect(entries.every(entry => entry.operation === 'clearAllData' && entry.action === 'delete')).toBe(true);
+    expect(entries.find(entry => entry.recordId === member.id)?.before).toMatchObject({ firstName: 'Jane' });
+  });
+
+  it('records what a restore created, changed and removed', async () => {
+    sportingClubService.setActor('Alex');
+    const backup = await sportingClubService.exportData();
+    const [changed, removed, ...kept] = backup.sports;
+    const member = await sportingClubService.addMember(MEMBER);
+    const before = (await sportingClubService.getAuditLog()).length;
+
+    await sportingClubService.restoreData({ ...backup, sports: [{ ...changed, name: 'Futsal' }, ...kept] }, 'replace');
+
+    const entries = await auditEntriesSince(before);
+    expect(entries.map(entry => [entry.action, entry.recordId]).sort()).toEqual(
+      [['delete', member.id], ['delete', removed.id], ['update', changed.id]].sort()
+    );
+    expect(entries.find(entry => entry.action === 'update')).toMatchObject({
+      operation: 'restoreData',
+      actor: 'Alex',
+      before: { name: changed.name },
+      after: { name: 'Futsal' },
+    });
+  });
+
+  it('reads the newest entries first, up to the limit', async () => {
+    // A minute apart, and after the entries init() wrote
+    const start = Date.now();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start + 60_000);
+    const member = await sportingClubService.addMember(MEMBER);
+    vi.setSystemTime(start + 120_000);
+    await sportingClubService.updateMember(member.id, { phone: '555-0199' });
+
+    const entries = await sportingClubService.getAuditLog({ limit: 2 });
+    expect(entries.map(entry => entry.operation)).toEqual(['updateMember', 'addMember']);
+  });
+
+  it('fills each page with matching entries only, however many others are newer', async () => {
+    sportingClubService.setActor('Robin');
+    const member = await sportingClubService.addMember(MEMBER);
+    sportingClubService.setActor('Sam');
+    for (const phone of ['555-0101', '555-0102', '555-0103']) {
+      await sportingClubService.updateMember(member.id, { phone });
+    }
+
+    const sportEntries = await sportingClubService.getAuditLog({ store: 'sports', limit: 2 });
+    const byRobin = await sportingClubService.getAuditLog({ matches: entry => entry.actor === 'Robin', limit: 2 });
+
+    expect(sportEntries.map(entry => entry.operation)).toEqual(['addSport', 'addSport']);
+    expect(byRobin.map(entry => entry.operation)).toEqual(['addMember']);
+  });
+
+  it('reads a date range given the wrong way round', async () => {
+    const day = new Date();
+    const from = new Date(day.getTime() - 60_000);
+    const to = new Date(day.getTime() + 60_000);
+
+    const swapped = await sportingClubService.getAuditLog({ from: to, to: from });
+    expect(swapped).toEqual(await sportingClubService.getAuditLog({ from, to }));
+    expect(swapped.length).toBeGreaterThan(0);
+  });
+});
+
+describe('subscribeMemberToSport', () => {
+  it('refuses missing and archived members and archived sports', async () => {
+    const [sport, archivedSport] = await sportingClubService.getAllSports();
+    const member = await sportingClubService.addMember(MEMBER);
+    const archivedMember = await sportingClubService.addMember({ ...MEMBER, email: 'john@example.com' });
+    await sportingClubService.archiveSport(archivedSport.id);
+    await sportingClubService.archiveMember(archivedMember.id);
+
+    await expect(sportingClubService.subscribeMemberToSport('missing', sport.id)).rejects.toThrow('Member not found');
+    await expect(sportingClubService.subscribeMemberToSport(archivedMember.id, sport.id)).rejects.toThrow('Archived members');
+    await expect(sportingClubService.subscribeMemberToSport(member.id, archivedSport.id)).rejects.toThrow('Archived sports');
+    await expect(sportingClubService.subscribeMemberToSport(member.id, sport.id)).resolves.toMatchObject({ status: 'active' });
+  });
+});
+
+describe('archiveSport', () => {
+  it('cancels its subscriptions and keeps them as history', async () => {
+    const [sport] = await sportingClubService.getAllSports();
+    const member = await sportingClubService.addMember(MEMBER);
+    const held = await sportingClubService.subscribeMemberToSport(member.id, sport.id);
+
+    await sportingClubService.archiveSport(sport.id);
+
+    const [kept] = await sportingClubService.getSportSubscriptions(sport.id);
+    expect(kept).toMatchObject({ id: held.id, status: 'cancelled', subscriptionDate: held.subscriptionDate });
+    expect(kept.cancelledAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('createInvoice', () => {
+  it('does not bill a cycle an earlier invoice already bills', async () => {
+    const [sport, otherSport] = await sportingClubService.getAllSports();
+    const member = await sportingClubService.addMember(MEMBER);
+    await sportingClubService.updateSport(sport.id, { feeCents: 3000, billingPeriod: 'monthly' });
+    await sportingClubService.subscribeMemberToSport(member.id, sport.id);
+
+    const first = await sportingClubService.createInvoice(member.id);
+    await expect(sportingClubService.createInvoice(member.id)).rejects.toThrow('already been invoiced');
+
+    await sportingClubService.updateSport(otherSport.id, { feeCents: 2000, billingPeriod: 'monthly' });
+    await sportingClubService.subscribeMemberToSport(member.id, otherSport.id);
+    const second = await sportingClubService.createInvoice(member.id);
+
+    expect(first.lines.map(line => line.sportId)).toEqual([sport.id]);
+    expect(second.lines.map(line => line.sportId)).toEqual([otherSport.id]);
+  });
+});
+
+describe('written records', () => {
+  it('returns every record archiving a member wrote, waitlist promotions included', async () => {
+    const [sport] = await sportingClubService.getAllSports();
+    await sportingClubService.updateSport(sport.id, { maxMembers: 1 });
+    const member = await sportingClubService.addMember(MEMBER);
+    const waiting = await sportingClubService.addMember({ ...MEMBER, email: 'john@example.com' });
+    const held = await sportingClubService.subscribeMemberToSport(member.id, sport.id);
+    const waitlisted = await sportingClubService.subscribeMemberToSport(waiting.id, sport.id);
+
+    const { result, written } = await sportingClubService.archiveMember(member.id);
+
+    expect(result).toEqual({ active: 1, waitlisted: 0, cancelled: 0 });
+    expect(written.map(({ store, id }) => `${store}/${id}`).sort()).toEqual(
+      [`members/${member.id}`, `subscriptions/${held.id}`, `subscriptions/${waitlisted.id}`].sort()
+    );
+    expect(written.find(entry => entry.id === waitlisted.id)?.record).toMatchObject({ status: 'active' });
+  });
+
+  it('returns the assignments deleted with a staff member', async () => {
+    const [sport] = await sportingClubService.getAllSports();
+    const coach = await sportingClubService.addStaff({
+      firstName: 'Sam', lastName: 'Coach', email: 'sam@example.com', phone: '555-0102', role: 'coach', qualifications: [],
+    });
+    const assignment = await sportingClubService.assignStaffToSport(coach.id, sport.id);
+
+    const { written } = await sportingClubService.deleteStaff(coach.id);
+
+    expect(written).toEqual(expect.arrayContaining([
+      { store: 'staff', id: coach.id, record: undefined },
+      { store: 'staffAssignments', id: assignment.id, record: undefined },
+    ]));
+  });
+
+  it('marks deleted records by leaving the record out', async () => {
+    const household = await sportingClubService.addHousehold({
+      name: 'Doe', contactName: 'Jane Doe', email: 'doe@example.com', phone: '555-0100',
+    });
+    const member = await sportingClubService.addMember({ ...MEMBER, householdId: household.id });
+
+    const { written } = await sportingClubService.deleteHousehold(household.id);
+
+    expect(written.find(entry => entry.store === 'households')).toEqual({ store: 'households', id: household.id, record: undefined });
+    expect(written.find(entry => entry.store === 'members')?.record).toMatchObject({ id: member.id, householdId: undefined });
+  });
+});
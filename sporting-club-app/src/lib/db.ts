@@ -1,4 +1,48 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames, StoreValue } from 'idb';
+import { runMigrations, LATEST_DB_VERSION } from '@/lib/migrations';
+import { parseInput, sportInputSchema, memberInputSchema, memberUpdateSchema, householdInputSchema, subscriptionInputSchema, paymentInputSchema, invoicePaymentInputSchema, sessionInputSchema, calendarDayField, attendanceInputSchema, staffInputSchema, facilityInputSchema, bookingInputSchema } from '@/lib/schemas';
+import { buildInvoiceLines, withoutInvoicedCycles } from '@/lib/invoices';
+import { toCalendarDay, weekdayOf } from '@/lib/schedule';
+import { describeBooking, findBookingConflicts } from '@/lib/facilities';
+
+interface SubscriptionPeriod {
+  startDate: Date;
+  endDate: Date;
+}
+
+// One updateMember call: every field whose value changed, rendered as display strings
+interface MemberEdit {
+  editedAt: Date;
+  changes: Array<{ field: string; from: string; to: string }>;
+}
+
+interface InvoiceLine {
+  subscriptionId: string;
+  sportId: string;
+  description: string;
+  periodStart: Date;
+  periodEnd?: Date;
+  amountCents: number;
+}
+
+// A fee a sport charged until it was changed
+interface PastFee {
+  until: Date;
+  feeCents?: number;
+  billingPeriod?: 'monthly' | 'annual';
+}
+
+// A family discount a household gave until it was changed
+interface PastDiscount {
+  until: Date;
+  discountPercent?: number;
+}
+
+interface Qualification {
+  name: string;
+  // Certifications without an expiry date stay valid
+  expiresAt?: Date;
+}
 
 interface SportingClubDB extends DBSchema {
   sports: {
@@ -9,6 +53,12 @@ interface SportingClubDB extends DBSchema {
       description: string;
       category: string;
       maxMembers?: number;
+      // Fee in cents, charged once or at the start of every billing period
+      feeCents?: number;
+      billingPeriod?: 'monthly' | 'annual';
+      // Earlier fees, oldest first, so charges that fell due before a change keep their amount
+      feeHistory?: PastFee[];
+      archivedAt?: Date;
       createdAt: Date;
       updatedAt: Date;
     };
@@ -20,16 +70,21 @@ interface SportingClubDB extends DBSchema {
       id: string;
       firstName: string;
       lastName: string;
-      email: string;
+      // Left out for household members reached through the primary contact; unique when set
+      email?: string;
+      // Empty for household members reached through the primary contact
       phone: string;
+      householdId?: string;
       dateOfBirth: Date;
       address: string;
       membershipDate: Date;
       status: 'active' | 'inactive';
+      archivedAt?: Date;
+      edits?: MemberEdit[];
       createdAt: Date;
       updatedAt: Date;
     };
-    indexes: { 'by-email': string; 'by-status': string };
+    indexes: { 'by-email': string; 'by-status': string; 'by-household': string };
   };
   subscriptions: {
     key: string;
@@ -38,38 +93,468 @@ interface SportingClubDB extends DBSchema {
       memberId: string;
       sportId: string;
       subscriptionDate: Date;
-      status: 'active' | 'cancelled';
+      status: 'active' | 'waitlisted' | 'cancelled';
+      waitlistedAt?: Date;
+      cancelledAt?: Date;
+      history: SubscriptionPeriod[];
       createdAt: Date;
       updatedAt: Date;
     };
     indexes: { 'by-member': string; 'by-sport': string; 'by-member-sport': [string, string] };
   };
+  payments: {
+    key: string;
+    value: {
+      id: string;
+      // Denormalized from the subscription so a member's payments can be read from one index
+      memberId: string;
+      subscriptionId: string;
+      amountCents: number;
+      paidAt: Date;
+      method: 'cash' | 'transfer' | 'card';
+      reference: string;
+      createdAt: Date;
+    };
+    indexes: { 'by-member': string; 'by-subscription': string };
+  };
+  invoices: {
+    key: string;
+    value: {
+      id: string;
+      // Sequential per database, allocated from the 'invoice' counter in the same transaction
+      number: number;
+      memberId: string;
+      // Snapshot of the member at issue time so later profile edits do not rewrite issued invoices
+      billTo: { name: string; email: string; address: string };
+      issuedAt: Date;
+      lines: InvoiceLine[];
+      totalCents: number;
+      status: 'issued' | 'paid';
+      paidAt?: Date;
+      paymentIds: string[];
+      createdAt: Date;
+      updatedAt: Date;
+    };
+    indexes: { 'by-member': string; 'by-number': number };
+  };
+  counters: {
+    key: string;
+    value: { name: string; value: number };
+  };
+  sessions: {
+    key: string;
+    value: {
+      id: string;
+      sportId: string;
+      // 0 = Sunday ... 6 = Saturday, as returned by Date.getDay()
+      weekday: number;
+      // Local wall-clock times as HH:MM
+      startTime: string;
+      endTime: string;
+      location: string;
+      coach: string;
+      // Calendar days (YYYY-MM-DD) on which the session does not take place, e.g. holidays
+      exceptions: string[];
+      createdAt: Date;
+      updatedAt: Date;
+    };
+    indexes: { 'by-sport': string };
+  };
+  attendance: {
+    key: string;
+    value: {
+      id: string;
+      sessionId: string;
+      // Denormalized from the session so attendance survives a session moving to another weekday
+      sportId: string;
+      memberId: string;
+      // Calendar day (YYYY-MM-DD) of the session occurrence
+      day: string;
+      status: 'present' | 'absent' | 'excused';
+      createdAt: Date;
+      updatedAt: Date;
+    };
+    indexes: {
+      'by-member': string;
+      'by-session': string;
+      'by-occurrence': [string, string];
+      'by-occurrence-member': [string, string, string];
+    };
+  };
+  staff: {
+    key: string;
+    value: {
+      id: string;
+      firstName: string;
+      lastName: string;
+      role: 'coach' | 'assistant' | 'manager' | 'volunteer';
+      email: string;
+      phone: string;
+      qualifications: Qualification[];
+      createdAt: Date;
+      updatedAt: Date;
+    };
+    indexes: { 'by-role': string };
+  };
+  // Join store: a sport can have several staff members and a staff member can work for several sports
+  staffAssignments: {
+    key: string;
+    value: {
+      id: string;
+      staffId: string;
+      sportId: string;
+      createdAt: Date;
+    };
+    indexes: { 'by-staff': string; 'by-sport': string; 'by-staff-sport': [string, string] };
+  };
+  // Groups family members under one primary contact
+  households: {
+    key: string;
+    value: {
+      id: string;
+      name: string;
+      contactName: string;
+      email: string;
+      phone: string;
+      // Family discount taken off every fee charged to the household's members
+      discountPercent?: number;
+      // Earlier discounts, oldest first, kept for the same reason as a sport's feeHistory
+      discountHistory?: PastDiscount[];
+      createdAt: Date;
+      updatedAt: Date;
+    };
+  };
+  facilities: {
+    key: string;
+    value: {
+      id: string;
+      name: string;
+      kind: 'pitch' | 'court' | 'pool' | 'hall' | 'other';
+      description: string;
+      createdAt: Date;
+      updatedAt: Date;
+    };
+  };
+  bookings: {
+    key: string;
+    value: {
+      id: string;
+      facilityId: string;
+      sportId: string;
+      sessionId?: string;
+      // once: on day only; weekly: every week on day's weekday, from day until the optional last day
+      recurrence: 'once' | 'weekly';
+      day: string;
+      until?: string;
+      startTime: string;
+      endTime: string;
+      note: string;
+      createdAt: Date;
+      updatedAt: Date;
+    };
+    indexes: { 'by-facility': string; 'by-sport': string; 'by-session': string };
+  };
+  // Append-only: entries are written in the transaction of the change they record and never edited
+  auditLog: {
+    key: string;
+    value: AuditEntry;
+    indexes: { 'by-at': Date };
+  };
+}
+
+type Subscription = SportingClubDB['subscriptions']['value'];
+type Payment = SportingClubDB['payments']['value'];
+type Invoice = SportingClubDB['invoices']['value'];
+type Session = SportingClubDB['sessions']['value'];
+type AttendanceRecord = SportingClubDB['attendance']['value'];
+type StaffMember = SportingClubDB['staff']['value'];
+type StaffAssignment = SportingClubDB['staffAssignments']['value'];
+type Household = SportingClubDB['households']['value'];
+type Facility = SportingClubDB['facilities']['value'];
+type Booking = SportingClubDB['bookings']['value'];
+
+interface ClubData {
+  sports: SportingClubDB['sports']['value'][];
+  members: SportingClubDB['members']['value'][];
+  subscriptions: Subscription[];
+  payments: Payment[];
+  invoices: Invoice[];
+  sessions: Session[];
+  attendance: AttendanceRecord[];
+  staff: StaffMember[];
+  staffAssignments: StaffAssignment[];
+  households: Household[];
+  facilities: Facility[];
+  bookings: Booking[];
+}
+
+// The stores making up ClubData, in the order backups list them
+const CLUB_DATA_STORES = [
+  'sports', 'members', 'subscriptions', 'payments', 'invoices', 'sessions', 'attendance', 'staff', 'staffAssignments',
+  'households', 'facilities', 'bookings',
+] as const satisfies ReadonlyArray<keyof ClubData>;
+
+type RestoreMode = 'merge' | 'replace';
+
+// Posted to other tabs after a write commits. 'reset' means the whole store was rewritten.
+type ClubChange =
+  | { store: keyof ClubData; id: string; operation: 'put' | 'delete' }
+  | { store: keyof ClubData; operation: 'reset' };
+
+const CHANGES_CHANNEL = 'sporting-club-changes';
+
+type ClubRecord = ClubData[keyof ClubData][number];
+
+// A record a write put, or deleted when record is absent
+interface WrittenRecord {
+  store: keyof ClubData;
+  id: string;
+  record?: ClubRecord;
+}
+
+// One record an undoable write changed, as it was before (absent if the write created it) and after
+interface UndoEntry {
+  store: keyof ClubData;
+  id: string;
+  before?: ClubRecord;
+  after?: ClubRecord;
+}
+
+// An archive, purge or cancellation together with everything it cascaded to, waitlist promotions included
+interface UndoCommand {
+  id: string;
+  action: 'archive' | 'purge' | 'cancel';
+  store: 'sports' | 'members' | 'subscriptions';
+  recordId: string;
+  performedAt: Date;
+  entries: UndoEntry[];
+}
+
+// One record changed by a service call. before and after hold only the fields that changed:
+// a created record has no before, a deleted one no after.
+interface AuditEntry {
+  id: string;
+  // Shared by every record one call changed, cascades included
+  operationId: string;
+  // The SportingClubService method, e.g. 'cancelSubscription'
+  operation: string;
+  store: keyof ClubData;
+  recordId: string;
+  action: 'create' | 'update' | 'delete';
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  // Whoever the app was told is at the keyboard; empty when nobody said
+  actor: string;
+  at: Date;
+}
+
+// Which audit entries to read. Dates may be left open; matches is for what only the caller can tell,
+// such as the name of the changed record.
+interface AuditLogQuery {
+  from?: Date;
+  to?: Date;
+  store?: keyof ClubData;
+  matches?: (entry: AuditEntry) => boolean;
+  limit?: number;
+}
+
+interface DeleteImpact {
+  active: number;
+  waitlisted: number;
+  cancelled: number;
+}
+type ReadWriteTransaction = IDBPTransaction<SportingClubDB, StoreNames<SportingClubDB>[], 'readwrite'>;
+
+// Waitlisted subscriptions in the order they should be promoted (first come, first served)
+function sortByWaitlistOrder(subscriptions: Subscription[]): Subscription[] {
+  return subscriptions
+    .filter(sub => sub.status === 'waitlisted')
+    .sort((a, b) => (a.waitlistedAt?.getTime() ?? 0) - (b.waitlistedAt?.getTime() ?? 0));
+}
+
+function isOpenSubscription(subscription: Subscription) {
+  return subscription.status === 'active' || subscription.status === 'waitlisted';
+}
+
+function toCancelledSubscription(subscription: Subscription, now: Date): Subscription {
+  return {
+    ...subscription,
+    status: 'cancelled',
+    // Leaving the waitlist is not the end of a subscription period
+    cancelledAt: subscription.status === 'active' ? now : undefined,
+    waitlistedAt: undefined,
+    updatedAt: now,
+  };
+}
+
+// Dates are compared and recorded by calendar day, which is all the member forms edit
+function formatEditValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return value === undefined ? '' : String(value);
+}
+
+function diffMember(before: SportingClubDB['members']['value'], updates: Record<string, unknown>): MemberEdit['changes'] {
+  return Object.entries(updates)
+    .map(([field, value]) => ({
+      field,
+      from: formatEditValue(before[field as keyof typeof before]),
+      to: formatEditValue(value),
+    }))
+    .filter(change => change.from !== change.to);
+}
+
+// Only records with an updatedAt can be told apart; the others are deleted by undoable writes, never edited
+function isSameVersion(current: ClubRecord | undefined, expected: ClubRecord | undefined) {
+  if (!current || !expected) return current === expected;
+  if (!('updatedAt' in expected) || !('updatedAt' in current)) return true;
+  return current.updatedAt.getTime() === expected.updatedAt.getTime();
+}
+
+// Bookkeeping fields, and the member edit list and fee histories that duplicate the audit log
+const UNAUDITED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'edits', 'feeHistory', 'discountHistory']);
+
+function pickFields(record: ClubRecord, fields: string[]) {
+  return Object.fromEntries(fields.map(field => [field, record[field as keyof ClubRecord]]));
+}
+
+// The fields that differ between the two versions of a record, compared by their JSON form
+function diffRecords(before: ClubRecord | undefined, after: ClubRecord | undefined) {
+  const fields = Object.keys({ ...before, ...after }).filter(field => !UNAUDITED_FIELDS.has(field));
+  const changed = before && after
+    ? fields.filter(field =>
+        JSON.stringify(before[field as keyof ClubRecord]) !== JSON.stringify(after[field as keyof ClubRecord]))
+    : fields;
+
+  return {
+    before: before && pickFields(before, changed),
+    after: after && pickFields(after, changed),
+    changed: changed.length > 0,
+  };
+}
+
+function countByStatus(subscriptions: Subscription[]): DeleteImpact {
+  return {
+    active: subscriptions.filter(sub => sub.status === 'active').length,
+    waitlisted: subscriptions.filter(sub => sub.status === 'waitlisted').length,
+    cancelled: subscriptions.filter(sub => sub.status === 'cancelled').length,
+  };
+}
+
+// Writes through a transaction while keeping the first before-image and the latest after-image of every
+// record it touches: the changes to broadcast, and what an undo has to write back
+class WriteLog {
+  readonly tx: ReadWriteTransaction;
+  private readonly entries = new Map<string, UndoEntry>();
+
+  constructor(tx: ReadWriteTransaction) {
+    this.tx = tx;
+  }
+
+  async put<K extends keyof ClubData>(store: K, record: ClubData[K][number]) {
+    const entry = await this.entryFor(store, record.id);
+    await this.tx.objectStore(store).put(record as StoreValue<SportingClubDB, K>);
+    entry.after = record;
+  }
+
+  async delete(store: keyof ClubData, id: string) {
+    const entry = await this.entryFor(store, id);
+    await this.tx.objectStore(store).delete(id);
+    entry.after = undefined;
+  }
+
+  // Empties the store in one request while still keeping a before-image of every record it held
+  async clear(store: keyof ClubData) {
+    const records: ClubRecord[] = await this.tx.objectStore(store).getAll();
+    await this.tx.objectStore(store).clear();
+    for (const record of records) {
+      const key = `${store}/${record.id}`;
+      const entry = this.entries.get(key) ?? { store, id: record.id, before: record };
+      entry.after = undefined;
+      this.entries.set(key, entry);
+    }
+  }
+
+  // Writes that cascade return these with their result, so the caller can patch its copy of the data
+  // with every record they wrote instead of re-reading whole stores
+  get written(): WrittenRecord[] {
+    return [...this.entries.values()].map(({ store, id, after }) => ({ store, id, record: after }));
+  }
+
+  get changes(): ClubChange[] {
+    return [...this.entries.values()].map(({ store, id, after }) => ({ store, id, operation: after ? 'put' : 'delete' }));
+  }
+
+  // Appends one audit entry per record that ended up different, in the same transaction as the write
+  async audit(operation: string, actor: string) {
+    const operationId = crypto.randomUUID();
+    const at = new Date();
+    for (const { store, id, before, after } of this.entries.values()) {
+      const diff = diffRecords(before, after);
+      if (!diff.changed) continue;
+
+      await this.tx.objectStore('auditLog').add({
+        id: crypto.randomUUID(),
+        operationId,
+        operation,
+        store,
+        recordId: id,
+        action: !before ? 'create' : !after ? 'delete' : 'update',
+        before: diff.before,
+        after: diff.after,
+        actor,
+        at,
+      });
+    }
+  }
+
+  toUndoCommand(action: UndoCommand['action'], store: UndoCommand['store'], recordId: string): UndoCommand {
+    return { id: crypto.randomUUID(), action, store, recordId, performedAt: new Date(), entries: [...this.entries.values()] };
+  }
+
+  private async entryFor(store: keyof ClubData, id: string) {
+    const key = `${store}/${id}`;
+    const entry = this.entries.get(key) ?? { store, id, before: await this.tx.objectStore(store).get(id) };
+    this.entries.set(key, entry);
+    return entry;
+  }
 }
 
 class SportingClubService {
   private db: IDBPDatabase<SportingClubDB> | null = null;
   private readonly DB_NAME = 'SportingClubDB';
-  private readonly DB_VERSION = 1;
+  private readonly DB_VERSION = LATEST_DB_VERSION;
+  private channel: BroadcastChannel | null = null;
+  private readonly remoteChangeListeners = new Set<(changes: ClubChange[]) => void>();
+  private readonly versionChangeListeners = new Set<() => void>();
+  private readonly undoableListeners = new Set<(command: UndoCommand) => void>();
+  private actor = '';
 
   async init(): Promise<void> {
-    this.db = await openDB<SportingClubDB>(this.DB_NAME, this.DB_VERSION, {
-      upgrade(db) {
-
-        const sportsStore = db.createObjectStore('sports', { keyPath: 'id' });
-        sportsStore.createIndex('by-category', 'category');
-
-        // Members store
-        const membersStore = db.createObjectStore('members', { keyPath: 'id' });
-        membersStore.createIndex('by-email', 'email', { unique: true });
-        membersStore.createIndex('by-status', 'status');
-
-        // Subscriptions store
-        const subscriptionsStore = db.createObjectStore('subscriptions', { keyPath: 'id' });
-        subscriptionsStore.createIndex('by-member', 'memberId');
-        subscriptionsStore.createIndex('by-sport', 'sportId');
-        subscriptionsStore.createIndex('by-member-sport', ['memberId', 'sportId'], { unique: true });
-      },
-    });
+    let migrationError: unknown = null;
+    try {
+      this.db = await openDB<SportingClubDB>(this.DB_NAME, this.DB_VERSION, {
+        upgrade(db, oldVersion, newVersion, transaction) {
+          runMigrations(db, oldVersion, newVersion ?? LATEST_DB_VERSION, transaction).catch(err => {
+            migrationError = err;
+          });
+        },
+        // Another tab opened a newer schema version: close this connection so its upgrade is not blocked
+        blocking: () => {
+          void this.close();
+          this.versionChangeListeners.forEach(listener => listener());
+        },
+      });
+    } catch (err) {
+      // A failed migration aborts the upgrade; report what failed rather than the abort
+      throw migrationError ?? err;
+    }
+
+    if (!this.channel) {
+      this.channel = new BroadcastChannel(CHANGES_CHANNEL);
+      this.channel.onmessage = (event: MessageEvent<ClubChange[]>) => {
+        this.remoteChangeListeners.forEach(listener => listener(event.data));
+      };
+    }
 
     // Add some initial data if database is empty
     await this.seedInitialData();
@@ -93,6 +578,59 @@ class SportingClubService {
     }
   }
 
+  // Writes committed by other tabs. A tab never receives its own broadcasts.
+  onRemoteChange(listener: (changes: ClubChange[]) => void) {
+    this.remoteChangeListeners.add(listener);
+    return () => {
+      this.remoteChangeListeners.delete(listener);
+    };
+  }
+
+  // Called once this tab's connection was closed for a schema upgrade in another tab
+  onVersionChange(listener: () => void) {
+    this.versionChangeListeners.add(listener);
+    return () => {
+      this.versionChangeListeners.delete(listener);
+    };
+  }
+
+  // Archives, purges and cancellations made in this tab, each with what it takes to revert it
+  onUndoable(listener: (command: UndoCommand) => void) {
+    this.undoableListeners.add(listener);
+    return () => {
+      this.undoableListeners.delete(listener);
+    };
+  }
+
+  private announceUndoable(command: UndoCommand) {
+    this.undoableListeners.forEach(listener => listener(command));
+  }
+
+  // Name recorded as the actor of every audit entry from now on
+  setActor(actor: string) {
+    this.actor = actor.trim();
+  }
+
+  // Audits the changes in the write's own transaction, waits for it to commit, then tells other tabs
+  private async commit(log: WriteLog, operation: string) {
+    await log.audit(operation, this.actor);
+    await log.tx.done;
+    this.broadcast(log.changes);
+  }
+
+  // For writes that rewrite whole stores: other tabs re-read those stores instead of every record
+  private async commitReset(log: WriteLog, operation: string) {
+    await log.audit(operation, this.actor);
+    await log.tx.done;
+    this.broadcast(CLUB_DATA_STORES.map(store => ({ store, operation: 'reset' })));
+  }
+
+  private broadcast(changes: ClubChange[]) {
+    if (changes.length > 0) {
+      this.channel?.postMessage(changes);
+    }
+  }
+
   private ensureDB(): IDBPDatabase<SportingClubDB> {
     if (!this.db) {
       throw new Error('Database not initialized. Call init() first.');
@@ -103,17 +641,20 @@ class SportingClubService {
   // Sports operations
   async addSport(sport: Omit<SportingClubDB['sports']['value'], 'id' | 'createdAt' | 'updatedAt'>) {
     const db = this.ensureDB();
+    const input = parseInput(sportInputSchema, sport);
     const id = crypto.randomUUID();
     const now = new Date();
     
     const sportData: SportingClubDB['sports']['value'] = {
-      ...sport,
+      ...input,
       id,
       createdAt: now,
       updatedAt: now,
     };
 
-    await db.add('sports', sportData);
+    const log = new WriteLog(db.transaction(['sports', 'auditLog'], 'readwrite'));
+    await log.put('sports', sportData);
+    await this.commit(log, 'addSport');
     return sportData;
   }
 
@@ -127,40 +668,140 @@ class SportingClubService {
     return await db.getAll('sports');
   }
 
+  async getSportsByCategory(category: string) {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('sports', 'by-category', category);
+  }
+
   async updateSport(id: string, updates: Partial<Omit<SportingClubDB['sports']['value'], 'id' | 'createdAt'>>) {
     const db = this.ensureDB();
-    const sport = await db.get('sports', id);
+    const input = parseInput(sportInputSchema.partial(), updates);
+    const tx = db.transaction(['sports', 'subscriptions', 'auditLog'], 'readwrite');
+    const sport = await tx.objectStore('sports').get(id);
     if (!sport) throw new Error('Sport not found');
 
+    const now = new Date();
+    const merged = { ...sport, ...input };
+    const feeChanged = merged.feeCents !== sport.feeCents || merged.billingPeriod !== sport.billingPeriod;
     const updatedSport = {
-      ...sport,
-      ...updates,
-      updatedAt: new Date(),
+      ...merged,
+      // Identity and creation time never change, whatever the caller passes
+      id: sport.id,
+      createdAt: sport.createdAt,
+      feeHistory: feeChanged
+        ? [...(sport.feeHistory ?? []), { until: now, feeCents: sport.feeCents, billingPeriod: sport.billingPeriod }]
+        : sport.feeHistory,
+      updatedAt: now,
     };
 
-    await db.put('sports', updatedSport);
-    return updatedSport;
+    const log = new WriteLog(tx);
+    await log.put('sports', updatedSport);
+    // A raised capacity frees spots for waitlisted members
+    await this.promoteFromWaitlist(log, id);
+    await this.commit(log, 'updateSport');
+    return { result: updatedSport, written: log.written };
   }
 
-  async deleteSport(id: string) {
+  async getSportDeleteImpact(id: string) {
+    return countByStatus(await this.getSportSubscriptions(id));
+  }
+
+  // Hides the sport from default lists. Open subscriptions are cancelled but kept with their history.
+  async archiveSport(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['sports', 'subscriptions', 'auditLog'], 'readwrite');
+    const sport = await tx.objectStore('sports').get(id);
+    if (!sport) throw new Error('Sport not found');
+    if (sport.archivedAt) throw new Error('Sport is already archived');
+
+    const subscriptions = await tx.objectStore('subscriptions').index('by-sport').getAll(id);
+    const now = new Date();
+    const log = new WriteLog(tx);
+    for (const subscription of subscriptions.filter(isOpenSubscription)) {
+      await log.put('subscriptions', toCancelledSubscription(subscription, now));
+    }
+    await log.put('sports', { ...sport, archivedAt: now, updatedAt: now });
+
+    await this.commit(log, 'archiveSport');
+    this.announceUndoable(log.toUndoCommand('archive', 'sports', id));
+    return { result: countByStatus(subscriptions), written: log.written };
+  }
+
+  // Brings an archived sport back. Its cancelled subscriptions stay cancelled; members subscribe again.
+  async restoreSport(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['sports', 'auditLog'], 'readwrite');
+    const sport = await tx.objectStore('sports').get(id);
+    if (!sport) throw new Error('Sport not found');
+    if (!sport.archivedAt) throw new Error('Sport is not archived');
+
+    const restoredSport = { ...sport, archivedAt: undefined, updatedAt: new Date() };
+    const log = new WriteLog(tx);
+    await log.put('sports', restoredSport);
+    await this.commit(log, 'restoreSport');
+    return restoredSport;
+  }
+
+  // Removes an archived sport for good, with its subscriptions, payments, sessions, attendance,
+  // staff assignments and bookings
+  async purgeSport(id: string) {
     const db = this.ensureDB();
-    await db.delete('sports', id);
+    const tx = db.transaction(
+      ['sports', 'subscriptions', 'payments', 'sessions', 'attendance', 'staffAssignments', 'bookings', 'auditLog'],
+      'readwrite'
+    );
+    const sport = await tx.objectStore('sports').get(id);
+    if (!sport) throw new Error('Sport not found');
+    if (!sport.archivedAt) throw new Error('Archive the sport before purging it');
+
+    const subscriptions = await tx.objectStore('subscriptions').index('by-sport').getAll(id);
+    const log = new WriteLog(tx);
+    for (const subscription of subscriptions) {
+      await log.delete('subscriptions', subscription.id);
+      for (const paymentId of await tx.objectStore('payments').index('by-subscription').getAllKeys(subscription.id)) {
+        await log.delete('payments', paymentId);
+      }
+    }
+    for (const sessionId of await tx.objectStore('sessions').index('by-sport').getAllKeys(id)) {
+      await log.delete('sessions', sessionId);
+      for (const recordId of await tx.objectStore('attendance').index('by-session').getAllKeys(sessionId)) {
+        await log.delete('attendance', recordId);
+      }
+    }
+    for (const assignmentId of await tx.objectStore('staffAssignments').index('by-sport').getAllKeys(id)) {
+      await log.delete('staffAssignments', assignmentId);
+    }
+    for (const bookingId of await tx.objectStore('bookings').index('by-sport').getAllKeys(id)) {
+      await log.delete('bookings', bookingId);
+    }
+    await log.delete('sports', id);
+
+    await this.commit(log, 'purgeSport');
+    this.announceUndoable(log.toUndoCommand('purge', 'sports', id));
+    return { result: countByStatus(subscriptions), written: log.written };
   }
 
   // Members operations
   async addMember(member: Omit<SportingClubDB['members']['value'], 'id' | 'createdAt' | 'updatedAt'>) {
     const db = this.ensureDB();
+    const input = parseInput(memberInputSchema, member);
     const id = crypto.randomUUID();
     const now = new Date();
     
     const memberData: SportingClubDB['members']['value'] = {
-      ...member,
+      ...input,
       id,
       createdAt: now,
       updatedAt: now,
     };
 
-    await db.add('members', memberData);
+    const tx = db.transaction(['members', 'households', 'auditLog'], 'readwrite');
+    if (input.householdId && !(await tx.objectStore('households').get(input.householdId))) {
+      throw new Error('Household not found');
+    }
+    const log = new WriteLog(tx);
+    await log.put('members', memberData);
+    await this.commit(log, 'addMember');
     return memberData;
   }
 
@@ -176,56 +817,290 @@ class SportingClubService {
 
   async updateMember(id: string, updates: Partial<Omit<SportingClubDB['members']['value'], 'id' | 'createdAt'>>) {
     const db = this.ensureDB();
-    const member = await db.get('members', id);
+    const input = parseInput(memberUpdateSchema, updates);
+    const tx = db.transaction(['members', 'households', 'auditLog'], 'readwrite');
+    const member = await tx.objectStore('members').get(id);
     if (!member) throw new Error('Member not found');
+    // Validated as a whole so leaving a household cannot leave the member without an email or phone
+    parseInput(memberInputSchema, { ...member, ...input });
+    if (input.householdId && !(await tx.objectStore('households').get(input.householdId))) {
+      throw new Error('Household not found');
+    }
 
+    const now = new Date();
+    const changes = diffMember(member, input);
     const updatedMember = {
       ...member,
-      ...updates,
-      updatedAt: new Date(),
+      ...input,
+      // Identity and creation time never change, whatever the caller passes
+      id: member.id,
+      createdAt: member.createdAt,
+      edits: changes.length > 0 ? [...(member.edits ?? []), { editedAt: now, changes }] : member.edits,
+      updatedAt: now,
     };
 
-    await db.put('members', updatedMember);
-    return updatedMember;
+    const log = new WriteLog(tx);
+    await log.put('members', updatedMember);
+    await this.commit(log, 'updateMember');
+    return { result: updatedMember, written: log.written };
   }
 
-  async deleteMember(id: string) {
+  // Adds members in one transaction. Emails already taken in the by-email index are skipped and reported, not thrown.
+  async importMembers(members: Omit<SportingClubDB['members']['value'], 'id' | 'createdAt' | 'updatedAt'>[]) {
     const db = this.ensureDB();
-    await db.delete('members', id);
+    const tx = db.transaction(['members', 'auditLog'], 'readwrite');
+    const log = new WriteLog(tx);
+    const now = new Date();
+
+    const imported: SportingClubDB['members']['value'][] = [];
+    const skipped: Array<{ email: string; reason: string }> = [];
+
+    for (const member of members) {
+      const result = memberInputSchema.safeParse(member);
+      if (!result.success) {
+        skipped.push({ email: member.email ?? '', reason: result.error.issues[0].message });
+        continue;
+      }
+      if (result.data.email && await tx.objectStore('members').index('by-email').getKey(result.data.email)) {
+        skipped.push({ email: result.data.email, reason: 'Email is already registered' });
+        continue;
+      }
+
+      const memberData = { ...result.data, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+      await log.put('members', memberData);
+      imported.push(memberData);
+    }
+
+    await this.commit(log, 'importMembers');
+    return { imported, skipped };
   }
 
-  // Subscriptions operations
-  async subscribeMemberToSport(memberId: string, sportId: string) {
+  async getMemberDeleteImpact(id: string) {
+    return countByStatus(await this.getMemberSubscriptions(id));
+  }
+
+  // Hides the member from default lists. Open subscriptions are cancelled but kept with their history,
+  // and the spots they held go to the next people on each waitlist.
+  async archiveMember(id: string) {
     const db = this.ensureDB();
-    
-    // Check if subscription already exists
-    const existing = await this.getSubscription(memberId, sportId);
-    if (existing && existing.status === 'active') {
-      throw new Error('Member is already subscribed to this sport');
-    }
+    const tx = db.transaction(['sports', 'members', 'subscriptions', 'auditLog'], 'readwrite');
+    const member = await tx.objectStore('members').get(id);
+    if (!member) throw new Error('Member not found');
+    if (member.archivedAt) throw new Error('Member is already archived');
 
-    const id = crypto.randomUUID();
+    const subscriptions = await tx.objectStore('subscriptions').index('by-member').getAll(id);
     const now = new Date();
-    
-    const subscriptionData: SportingClubDB['subscriptions']['value'] = {
-      id,
-      memberId,
-      sportId,
-      subscriptionDate: now,
-      status: 'active',
-      createdAt: now,
-      updatedAt: now,
-    };
+    const log = new WriteLog(tx);
+    for (const subscription of subscriptions.filter(isOpenSubscription)) {
+      await log.put('subscriptions', toCancelledSubscription(subscription, now));
+    }
+    await log.put('members', { ...member, archivedAt: now, updatedAt: now });
+    for (const subscription of subscriptions.filter(sub => sub.status === 'active')) {
+      await this.promoteFromWaitlist(log, subscription.sportId);
+    }
 
-    await db.add('subscriptions', subscriptionData);
-    return subscriptionData;
+    await this.commit(log, 'archiveMember');
+    this.announceUndoable(log.toUndoCommand('archive', 'members', id));
+    return { result: countByStatus(subscriptions), written: log.written };
   }
 
-  async getSubscription(memberId: string, sportId: string) {
+  // Brings an archived member back. Their cancelled subscriptions stay cancelled.
+  async restoreMember(id: string) {
     const db = this.ensureDB();
-    try {
-      return await db.getFromIndex('subscriptions', 'by-member-sport', [memberId, sportId]);
-    } catch {
+    const tx = db.transaction(['members', 'auditLog'], 'readwrite');
+    const member = await tx.objectStore('members').get(id);
+    if (!member) throw new Error('Member not found');
+    if (!member.archivedAt) throw new Error('Member is not archived');
+
+    const restoredMember = { ...member, archivedAt: undefined, updatedAt: new Date() };
+    const log = new WriteLog(tx);
+    await log.put('members', restoredMember);
+    await this.commit(log, 'restoreMember');
+    return restoredMember;
+  }
+
+  // Removes an archived member for good, with their subscriptions, payments, invoices and attendance
+  async purgeMember(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['members', 'subscriptions', 'payments', 'invoices', 'attendance', 'auditLog'], 'readwrite');
+    const member = await tx.objectStore('members').get(id);
+    if (!member) throw new Error('Member not found');
+    if (!member.archivedAt) throw new Error('Archive the member before purging them');
+
+    const subscriptions = await tx.objectStore('subscriptions').index('by-member').getAll(id);
+    const log = new WriteLog(tx);
+    for (const subscription of subscriptions) {
+      await log.delete('subscriptions', subscription.id);
+    }
+    for (const paymentId of await tx.objectStore('payments').index('by-member').getAllKeys(id)) {
+      await log.delete('payments', paymentId);
+    }
+    for (const invoiceId of await tx.objectStore('invoices').index('by-member').getAllKeys(id)) {
+      await log.delete('invoices', invoiceId);
+    }
+    for (const recordId of await tx.objectStore('attendance').index('by-member').getAllKeys(id)) {
+      await log.delete('attendance', recordId);
+    }
+    await log.delete('members', id);
+
+    await this.commit(log, 'purgeMember');
+    this.announceUndoable(log.toUndoCommand('purge', 'members', id));
+    return { result: countByStatus(subscriptions), written: log.written };
+  }
+
+  // Households operations
+  async addHousehold(household: Omit<Household, 'id' | 'createdAt' | 'updatedAt'>) {
+    const db = this.ensureDB();
+    const input = parseInput(householdInputSchema, household);
+    const now = new Date();
+
+    const householdData: Household = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const log = new WriteLog(db.transaction(['households', 'auditLog'], 'readwrite'));
+    await log.put('households', householdData);
+    await this.commit(log, 'addHousehold');
+    return householdData;
+  }
+
+  async getHousehold(id: string) {
+    const db = this.ensureDB();
+    return await db.get('households', id);
+  }
+
+  async getAllHouseholds() {
+    const db = this.ensureDB();
+    return await db.getAll('households');
+  }
+
+  async getHouseholdMembers(id: string) {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('members', 'by-household', id);
+  }
+
+  async updateHousehold(id: string, updates: Partial<Omit<Household, 'id' | 'createdAt'>>) {
+    const db = this.ensureDB();
+    const input = parseInput(householdInputSchema.partial(), updates);
+    const tx = db.transaction(['households', 'auditLog'], 'readwrite');
+    const household = await tx.objectStore('households').get(id);
+    if (!household) throw new Error('Household not found');
+
+    const now = new Date();
+    const merged = { ...household, ...input };
+    const updatedHousehold = {
+      ...merged,
+      id: household.id,
+      createdAt: household.createdAt,
+      discountHistory: merged.discountPercent !== household.discountPercent
+        ? [...(household.discountHistory ?? []), { until: now, discountPercent: household.discountPercent }]
+        : household.discountHistory,
+      updatedAt: now,
+    };
+
+    const log = new WriteLog(tx);
+    await log.put('households', updatedHousehold);
+    await this.commit(log, 'updateHousehold');
+    return { result: updatedHousehold, written: log.written };
+  }
+
+  // Members leave the household but are kept. Refused while any of them has no email or phone of their own.
+  async deleteHousehold(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['households', 'members', 'auditLog'], 'readwrite');
+    const household = await tx.objectStore('households').get(id);
+    if (!household) throw new Error('Household not found');
+
+    const members = await tx.objectStore('members').index('by-household').getAll(id);
+    const dependents = members.filter(member => !member.email || !member.phone);
+    if (dependents.length > 0) {
+      throw new Error(`${dependents.length} member(s) of the household have no email or phone of their own`);
+    }
+
+    const now = new Date();
+    const log = new WriteLog(tx);
+    for (const member of members) {
+      await log.put('members', { ...member, householdId: undefined, updatedAt: now });
+    }
+    await log.delete('households', id);
+    await this.commit(log, 'deleteHousehold');
+    return { result: household, written: log.written };
+  }
+
+  // Subscriptions operations
+  async subscribeMemberToSport(memberId: string, sportId: string) {
+    const db = this.ensureDB();
+    parseInput(subscriptionInputSchema, { memberId, sportId });
+    const tx = db.transaction(['sports', 'members', 'subscriptions', 'auditLog'], 'readwrite');
+    const subscriptionsStore = tx.objectStore('subscriptions');
+
+    const sport = await tx.objectStore('sports').get(sportId);
+    if (!sport) throw new Error('Sport not found');
+    if (sport.archivedAt) throw new Error('Archived sports cannot take new subscriptions');
+    const member = await tx.objectStore('members').get(memberId);
+    if (!member) throw new Error('Member not found');
+    if (member.archivedAt) throw new Error('Archived members cannot be subscribed');
+
+    // Check if subscription already exists
+    const existing = await subscriptionsStore.index('by-member-sport').get([memberId, sportId]);
+    if (existing && existing.status === 'active') {
+      throw new Error('Member is already subscribed to this sport');
+    }
+    if (existing && existing.status === 'waitlisted') {
+      throw new Error('Member is already on the waitlist for this sport');
+    }
+
+    const sportSubscriptions = await subscriptionsStore.index('by-sport').getAll(sportId);
+    const activeCount = sportSubscriptions.filter(sub => sub.status === 'active').length;
+    const isFull = sport.maxMembers !== undefined && activeCount >= sport.maxMembers;
+
+    const now = new Date();
+    const placement = isFull
+      ? { status: 'waitlisted' as const, waitlistedAt: now }
+      : { status: 'active' as const, waitlistedAt: undefined };
+
+    let subscriptionData: Subscription;
+
+    // Reuse the cancelled row: the by-member-sport index only allows one row per pair
+    if (existing) {
+      subscriptionData = {
+        ...existing,
+        ...placement,
+        subscriptionDate: now,
+        cancelledAt: undefined,
+        // Only a cancelled active period is history; a withdrawn waitlist entry never started
+        history: existing.cancelledAt
+          ? [...existing.history, { startDate: existing.subscriptionDate, endDate: existing.cancelledAt }]
+          : existing.history,
+        updatedAt: now,
+      };
+    } else {
+      subscriptionData = {
+        ...placement,
+        id: crypto.randomUUID(),
+        memberId,
+        sportId,
+        subscriptionDate: now,
+        history: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+    }
+
+    const log = new WriteLog(tx);
+    await log.put('subscriptions', subscriptionData);
+    await this.commit(log, 'subscribeMemberToSport');
+    return subscriptionData;
+  }
+
+  async getSubscription(memberId: string, sportId: string) {
+    const db = this.ensureDB();
+    try {
+      return await db.getFromIndex('subscriptions', 'by-member-sport', [memberId, sportId]);
+    } catch {
       return null;
     }
   }
@@ -247,66 +1122,712 @@ class SportingClubService {
 
   async cancelSubscription(memberId: string, sportId: string) {
     const db = this.ensureDB();
-    const subscription = await this.getSubscription(memberId, sportId);
+    const tx = db.transaction(['sports', 'subscriptions', 'auditLog'], 'readwrite');
+    const subscriptionsStore = tx.objectStore('subscriptions');
+
+    const subscription = await subscriptionsStore.index('by-member-sport').get([memberId, sportId]);
     if (!subscription) throw new Error('Subscription not found');
+    if (subscription.status === 'cancelled') throw new Error('Subscription is already cancelled');
 
-    const updatedSubscription = {
-      ...subscription,
-      status: 'cancelled' as const,
-      updatedAt: new Date(),
+    const updatedSubscription = toCancelledSubscription(subscription, new Date());
+
+    const log = new WriteLog(tx);
+    await log.put('subscriptions', updatedSubscription);
+    if (subscription.status === 'active') {
+      await this.promoteFromWaitlist(log, sportId);
+    }
+    await this.commit(log, 'cancelSubscription');
+    this.announceUndoable(log.toUndoCommand('cancel', 'subscriptions', subscription.id));
+    return { result: updatedSubscription, written: log.written };
+  }
+
+  async getSportWaitlist(sportId: string) {
+    return sortByWaitlistOrder(await this.getSportSubscriptions(sportId));
+  }
+
+  // Moves waitlisted members into any free spots of the sport, in waitlist order
+  private async promoteFromWaitlist(log: WriteLog, sportId: string) {
+    const sport = await log.tx.objectStore('sports').get(sportId);
+    if (!sport) return [];
+
+    const sportSubscriptions = await log.tx.objectStore('subscriptions').index('by-sport').getAll(sportId);
+    const activeCount = sportSubscriptions.filter(sub => sub.status === 'active').length;
+    const freeSpots = sport.maxMembers === undefined ? Infinity : Math.max(0, sport.maxMembers - activeCount);
+
+    const now = new Date();
+    const promoted = sortByWaitlistOrder(sportSubscriptions)
+      .slice(0, freeSpots)
+      .map(sub => ({
+        ...sub,
+        status: 'active' as const,
+        subscriptionDate: now,
+        waitlistedAt: undefined,
+        updatedAt: now,
+      }));
+
+    for (const subscription of promoted) {
+      await log.put('subscriptions', subscription);
+    }
+    return promoted;
+  }
+
+  // Payments operations
+  async recordPayment(payment: Omit<Payment, 'id' | 'memberId' | 'createdAt'>) {
+    const db = this.ensureDB();
+    const input = parseInput(paymentInputSchema, payment);
+    const tx = db.transaction(['subscriptions', 'payments', 'auditLog'], 'readwrite');
+
+    const subscription = await tx.objectStore('subscriptions').get(input.subscriptionId);
+    if (!subscription) throw new Error('Subscription not found');
+
+    const paymentData: Payment = {
+      ...input,
+      id: crypto.randomUUID(),
+      memberId: subscription.memberId,
+      createdAt: new Date(),
     };
 
-    await db.put('subscriptions', updatedSubscription);
-    return updatedSubscription;
+    const log = new WriteLog(tx);
+    await log.put('payments', paymentData);
+    await this.commit(log, 'recordPayment');
+    return paymentData;
   }
 
-  // Enhanced queries
-  async getMemberWithSports(memberId: string) {
-    const member = await this.getMember(memberId);
-    if (!member) return null;
+  async getMemberPayments(memberId: string) {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('payments', 'by-member', memberId);
+  }
 
-    const subscriptions = await this.getMemberSubscriptions(memberId);
-    const activeSubscriptions = subscriptions.filter(sub => sub.status === 'active');
-    
-    const sports = await Promise.all(
-      activeSubscriptions.map(sub => this.getSport(sub.sportId))
+  async deletePayment(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['payments', 'auditLog'], 'readwrite');
+    const payment = await tx.objectStore('payments').get(id);
+    if (!payment) throw new Error('Payment not found');
+
+    const log = new WriteLog(tx);
+    await log.delete('payments', id);
+    await this.commit(log, 'deletePayment');
+    return payment;
+  }
+
+  // Invoices operations
+  // Bills the current cycle of every active, fee-paying subscription that no earlier invoice bills. The invoice
+  // number comes from the 'invoice' counter in the same transaction, so numbers stay sequential without gaps or duplicates.
+  async createInvoice(memberId: string, asOf = new Date()) {
+    const db = this.ensureDB();
+    const tx = db.transaction(
+      ['members', 'households', 'sports', 'subscriptions', 'invoices', 'counters', 'auditLog'],
+      'readwrite'
     );
 
-    return {
-      ...member,
-      sports: sports.filter(Boolean),
-      subscriptions: activeSubscriptions,
+    const member = await tx.objectStore('members').get(memberId);
+    if (!member) throw new Error('Member not found');
+    const household = member.householdId ? await tx.objectStore('households').get(member.householdId) : undefined;
+
+    const [subscriptions, sports, invoices] = await Promise.all([
+      tx.objectStore('subscriptions').index('by-member').getAll(memberId),
+      tx.objectStore('sports').getAll(),
+      tx.objectStore('invoices').index('by-member').getAll(memberId),
+    ]);
+    const billable = buildInvoiceLines(
+      subscriptions,
+      new Map(sports.map(sport => [sport.id, sport])),
+      asOf,
+      household
+    );
+    if (billable.length === 0) throw new Error('Member has no active subscriptions with a fee');
+    const lines = withoutInvoicedCycles(billable, invoices);
+    if (lines.length === 0) throw new Error('Every current billing cycle of this member has already been invoiced');
+
+    const counter = (await tx.objectStore('counters').get('invoice')) ?? { name: 'invoice', value: 0 };
+    const number = counter.value + 1;
+    await tx.objectStore('counters').put({ ...counter, value: number });
+
+    const now = new Date();
+    const invoice: Invoice = {
+      id: crypto.randomUUID(),
+      number,
+      memberId,
+      billTo: {
+        name: `${member.firstName} ${member.lastName}`,
+        email: member.email ?? household?.email ?? '',
+        address: member.address,
+      },
+      issuedAt: asOf,
+      lines,
+      totalCents: lines.reduce((sum, line) => sum + line.amountCents, 0),
+      status: 'issued',
+      paymentIds: [],
+      createdAt: now,
+      updatedAt: now,
     };
+
+    const log = new WriteLog(tx);
+    await log.put('invoices', invoice);
+    await this.commit(log, 'createInvoice');
+    return invoice;
+  }
+
+  async getInvoice(id: string) {
+    const db = this.ensureDB();
+    return await db.get('invoices', id);
   }
 
-  async getSportWithMembers(sportId: string) {
-    const sport = await this.getSport(sportId);
-    if (!sport) return null;
+  async getMemberInvoices(memberId: string) {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('invoices', 'by-member', memberId);
+  }
 
-    const subscriptions = await this.getSportSubscriptions(sportId);
-    const activeSubscriptions = subscriptions.filter(sub => sub.status === 'active');
-    
-    const members = await Promise.all(
-      activeSubscriptions.map(sub => this.getMember(sub.memberId))
-    );
+  // Books one payment per invoice line and turns the invoice into a receipt
+  async payInvoice(id: string, details: Pick<Payment, 'paidAt' | 'method' | 'reference'>) {
+    const db = this.ensureDB();
+    const input = parseInput(invoicePaymentInputSchema, details);
+    const tx = db.transaction(['invoices', 'payments', 'auditLog'], 'readwrite');
+
+    const invoice = await tx.objectStore('invoices').get(id);
+    if (!invoice) throw new Error('Invoice not found');
+    if (invoice.status === 'paid') throw new Error('Invoice is already paid');
+
+    const now = new Date();
+    const payments: Payment[] = invoice.lines.map(line => ({
+      ...input,
+      id: crypto.randomUUID(),
+      memberId: invoice.memberId,
+      subscriptionId: line.subscriptionId,
+      amountCents: line.amountCents,
+      createdAt: now,
+    }));
+    const log = new WriteLog(tx);
+    for (const payment of payments) {
+      await log.put('payments', payment);
+    }
+
+    const paidInvoice: Invoice = {
+      ...invoice,
+      status: 'paid',
+      paidAt: input.paidAt,
+      paymentIds: payments.map(payment => payment.id),
+      updatedAt: now,
+    };
+    await log.put('invoices', paidInvoice);
+    await this.commit(log, 'payInvoice');
+    return { result: paidInvoice, written: log.written };
+  }
+
+  // Sessions operations
+  async addSession(session: Omit<Session, 'id' | 'exceptions' | 'createdAt' | 'updatedAt'>) {
+    const db = this.ensureDB();
+    const input = parseInput(sessionInputSchema, session);
+    const tx = db.transaction(['sports', 'sessions', 'auditLog'], 'readwrite');
+
+    if (!(await tx.objectStore('sports').get(input.sportId))) throw new Error('Sport not found');
+
+    const now = new Date();
+    const sessionData: Session = {
+      ...input,
+      id: crypto.randomUUID(),
+      exceptions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const log = new WriteLog(tx);
+    await log.put('sessions', sessionData);
+    await this.commit(log, 'addSession');
+    return sessionData;
+  }
+
+  async getSession(id: string) {
+    const db = this.ensureDB();
+    return await db.get('sessions', id);
+  }
+
+  async getAllSessions() {
+    const db = this.ensureDB();
+    return await db.getAll('sessions');
+  }
+
+  async getSportSessions(sportId: string) {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('sessions', 'by-sport', sportId);
+  }
+
+  async updateSession(id: string, updates: Partial<Omit<Session, 'id' | 'exceptions' | 'createdAt' | 'updatedAt'>>) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['sports', 'sessions', 'auditLog'], 'readwrite');
+    const session = await tx.objectStore('sessions').get(id);
+    if (!session) throw new Error('Session not found');
+
+    // Validated as a whole so a partial update cannot leave the session ending before it starts
+    const input = parseInput(sessionInputSchema, { ...session, ...updates });
+    if (!(await tx.objectStore('sports').get(input.sportId))) throw new Error('Sport not found');
+
+    const updatedSession = { ...session, ...input, updatedAt: new Date() };
+    const log = new WriteLog(tx);
+    await log.put('sessions', updatedSession);
+    await this.commit(log, 'updateSession');
+    return { result: updatedSession, written: log.written };
+  }
+
+  async deleteSession(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['sessions', 'attendance', 'bookings', 'auditLog'], 'readwrite');
+    const session = await tx.objectStore('sessions').get(id);
+    if (!session) throw new Error('Session not found');
+
+    const log = new WriteLog(tx);
+    // Facility bookings made for the session go with it
+    for (const bookingId of await tx.objectStore('bookings').index('by-session').getAllKeys(id)) {
+      await log.delete('bookings', bookingId);
+    }
+    for (const recordId of await tx.objectStore('attendance').index('by-session').getAllKeys(id)) {
+      await log.delete('attendance', recordId);
+    }
+    await log.delete('sessions', id);
+    await this.commit(log, 'deleteSession');
+    return { result: session, written: log.written };
+  }
 
-    return {
-      ...sport,
-      members: members.filter(Boolean),
-      subscriptions: activeSubscriptions,
-      memberCount: activeSubscriptions.length,
+  // Skips (cancelled) or restores one occurrence of a session on the given calendar day
+  async setSessionException(id: string, day: string, cancelled: boolean) {
+    const db = this.ensureDB();
+    const date = parseInput(calendarDayField, day);
+    const tx = db.transaction(['sessions', 'auditLog'], 'readwrite');
+    const session = await tx.objectStore('sessions').get(id);
+    if (!session) throw new Error('Session not found');
+
+    const exceptions = session.exceptions.filter(exception => exception !== date);
+    const updatedSession = {
+      ...session,
+      exceptions: cancelled ? [...exceptions, date].sort() : exceptions,
+      updatedAt: new Date(),
+    };
+
+    const log = new WriteLog(tx);
+    await log.put('sessions', updatedSession);
+    await this.commit(log, 'setSessionException');
+    return updatedSession;
+  }
+
+  // Cancels every session that would take place on a club holiday. Returns the number of sessions affected.
+  async addHoliday(day: string) {
+    const db = this.ensureDB();
+    const date = parseInput(calendarDayField, day);
+    const weekday = weekdayOf(date);
+    const tx = db.transaction(['sessions', 'auditLog'], 'readwrite');
+
+    const affected = (await tx.objectStore('sessions').getAll())
+      .filter(session => session.weekday === weekday && !session.exceptions.includes(date));
+    const now = new Date();
+    const log = new WriteLog(tx);
+    for (const session of affected) {
+      await log.put('sessions', { ...session, exceptions: [...session.exceptions, date].sort(), updatedAt: now });
+    }
+
+    await this.commit(log, 'addHoliday');
+    return { result: affected.length, written: log.written };
+  }
+
+  // Attendance operations
+  // Saves the marks taken for one session occurrence, replacing any earlier mark of the same member
+  async recordAttendance(sessionId: string, day: string, marks: Array<Pick<AttendanceRecord, 'memberId' | 'status'>>) {
+    const db = this.ensureDB();
+    const input = parseInput(attendanceInputSchema, { sessionId, day, marks });
+    const tx = db.transaction(['sessions', 'attendance', 'auditLog'], 'readwrite');
+    const attendanceStore = tx.objectStore('attendance');
+
+    const session = await tx.objectStore('sessions').get(input.sessionId);
+    if (!session) throw new Error('Session not found');
+    if (weekdayOf(input.day) !== session.weekday || session.exceptions.includes(input.day)) {
+      throw new Error('Session does not take place on this day');
+    }
+    if (input.day > toCalendarDay(new Date())) throw new Error('Attendance cannot be taken for a future session');
+
+    const now = new Date();
+    const log = new WriteLog(tx);
+    const records: AttendanceRecord[] = [];
+    for (const mark of input.marks) {
+      const existing = await attendanceStore.index('by-occurrence-member').get([input.sessionId, input.day, mark.memberId]);
+      const record: AttendanceRecord = existing
+        ? { ...existing, status: mark.status, updatedAt: now }
+        : {
+            id: crypto.randomUUID(),
+            sessionId: input.sessionId,
+            sportId: session.sportId,
+            memberId: mark.memberId,
+            day: input.day,
+            status: mark.status,
+            createdAt: now,
+            updatedAt: now,
+          };
+      await log.put('attendance', record);
+      records.push(record);
+    }
+
+    await this.commit(log, 'recordAttendance');
+    return records;
+  }
+
+  async getOccurrenceAttendance(sessionId: string, day: string) {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('attendance', 'by-occurrence', [sessionId, day]);
+  }
+
+  async getMemberAttendance(memberId: string) {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('attendance', 'by-member', memberId);
+  }
+
+  async getAllAttendance() {
+    const db = this.ensureDB();
+    return await db.getAll('attendance');
+  }
+
+  // Staff operations
+  async addStaff(staffMember: Omit<StaffMember, 'id' | 'createdAt' | 'updatedAt'>) {
+    const db = this.ensureDB();
+    const input = parseInput(staffInputSchema, staffMember);
+    const now = new Date();
+
+    const staffData: StaffMember = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const log = new WriteLog(db.transaction(['staff', 'auditLog'], 'readwrite'));
+    await log.put('staff', staffData);
+    await this.commit(log, 'addStaff');
+    return staffData;
+  }
+
+  async getStaffMember(id: string) {
+    const db = this.ensureDB();
+    return await db.get('staff', id);
+  }
+
+  async getAllStaff() {
+    const db = this.ensureDB();
+    return await db.getAll('staff');
+  }
+
+  async updateStaff(id: string, updates: Partial<Omit<StaffMember, 'id' | 'createdAt'>>) {
+    const db = this.ensureDB();
+    const input = parseInput(staffInputSchema.partial(), updates);
+    const tx = db.transaction(['staff', 'auditLog'], 'readwrite');
+    const staffMember = await tx.objectStore('staff').get(id);
+    if (!staffMember) throw new Error('Staff member not found');
+
+    const updatedStaff = {
+      ...staffMember,
+      ...input,
+      id: staffMember.id,
+      createdAt: staffMember.createdAt,
+      updatedAt: new Date(),
+    };
+
+    const log = new WriteLog(tx);
+    await log.put('staff', updatedStaff);
+    await this.commit(log, 'updateStaff');
+    return { result: updatedStaff, written: log.written };
+  }
+
+  // Removes the staff member together with their sport assignments
+  async deleteStaff(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['staff', 'staffAssignments', 'auditLog'], 'readwrite');
+    const staffMember = await tx.objectStore('staff').get(id);
+    if (!staffMember) throw new Error('Staff member not found');
+
+    const log = new WriteLog(tx);
+    for (const assignmentId of await tx.objectStore('staffAssignments').index('by-staff').getAllKeys(id)) {
+      await log.delete('staffAssignments', assignmentId);
+    }
+    await log.delete('staff', id);
+    await this.commit(log, 'deleteStaff');
+    return { result: staffMember, written: log.written };
+  }
+
+  async assignStaffToSport(staffId: string, sportId: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['staff', 'sports', 'staffAssignments', 'auditLog'], 'readwrite');
+
+    if (!(await tx.objectStore('staff').get(staffId))) throw new Error('Staff member not found');
+    if (!(await tx.objectStore('sports').get(sportId))) throw new Error('Sport not found');
+    if (await tx.objectStore('staffAssignments').index('by-staff-sport').get([staffId, sportId])) {
+      throw new Error('Staff member is already assigned to this sport');
+    }
+
+    const assignment: StaffAssignment = {
+      id: crypto.randomUUID(),
+      staffId,
+      sportId,
+      createdAt: new Date(),
+    };
+
+    const log = new WriteLog(tx);
+    await log.put('staffAssignments', assignment);
+    await this.commit(log, 'assignStaffToSport');
+    return assignment;
+  }
+
+  async unassignStaffFromSport(staffId: string, sportId: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['staffAssignments', 'auditLog'], 'readwrite');
+    const assignment = await tx.objectStore('staffAssignments').index('by-staff-sport').get([staffId, sportId]);
+    if (!assignment) throw new Error('Staff member is not assigned to this sport');
+
+    const log = new WriteLog(tx);
+    await log.delete('staffAssignments', assignment.id);
+    await this.commit(log, 'unassignStaffFromSport');
+    return assignment;
+  }
+
+  async getAllStaffAssignments() {
+    const db = this.ensureDB();
+    return await db.getAll('staffAssignments');
+  }
+
+  // Staff assigned to a sport, sorted by name
+  async getSportStaff(sportId: string) {
+    const db = this.ensureDB();
+    const assignments = await db.getAllFromIndex('staffAssignments', 'by-sport', sportId);
+    const staff = await Promise.all(assignments.map(assignment => this.getStaffMember(assignment.staffId)));
+
+    return staff
+      .filter(staffMember => staffMember !== undefined)
+      .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`));
+  }
+
+  // Facilities operations
+  async addFacility(facility: Omit<Facility, 'id' | 'createdAt' | 'updatedAt'>) {
+    const db = this.ensureDB();
+    const input = parseInput(facilityInputSchema, facility);
+    const now = new Date();
+
+    const facilityData: Facility = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
     };
+
+    const log = new WriteLog(db.transaction(['facilities', 'auditLog'], 'readwrite'));
+    await log.put('facilities', facilityData);
+    await this.commit(log, 'addFacility');
+    return facilityData;
   }
 
+  async getAllFacilities() {
+    const db = this.ensureDB();
+    return await db.getAll('facilities');
+  }
+
+  async updateFacility(id: string, updates: Partial<Omit<Facility, 'id' | 'createdAt'>>) {
+    const db = this.ensureDB();
+    const input = parseInput(facilityInputSchema.partial(), updates);
+    const tx = db.transaction(['facilities', 'auditLog'], 'readwrite');
+    const facility = await tx.objectStore('facilities').get(id);
+    if (!facility) throw new Error('Facility not found');
+
+    const updatedFacility = {
+      ...facility,
+      ...input,
+      id: facility.id,
+      createdAt: facility.createdAt,
+      updatedAt: new Date(),
+    };
+
+    const log = new WriteLog(tx);
+    await log.put('facilities', updatedFacility);
+    await this.commit(log, 'updateFacility');
+    return { result: updatedFacility, written: log.written };
+  }
+
+  // Removes the facility together with all of its bookings
+  async deleteFacility(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['facilities', 'bookings', 'auditLog'], 'readwrite');
+    const facility = await tx.objectStore('facilities').get(id);
+    if (!facility) throw new Error('Facility not found');
+
+    const log = new WriteLog(tx);
+    for (const bookingId of await tx.objectStore('bookings').index('by-facility').getAllKeys(id)) {
+      await log.delete('bookings', bookingId);
+    }
+    await log.delete('facilities', id);
+    await this.commit(log, 'deleteFacility');
+    return { result: facility, written: log.written };
+  }
+
+  // The overlap check and the write share one transaction, so two bookings cannot both take the same slot
+  async addBooking(booking: Omit<Booking, 'id' | 'createdAt' | 'updatedAt'>) {
+    const db = this.ensureDB();
+    const input = parseInput(bookingInputSchema, booking);
+    const tx = db.transaction(['facilities', 'sports', 'sessions', 'bookings', 'auditLog'], 'readwrite');
+    const bookingsStore = tx.objectStore('bookings');
+
+    if (!(await tx.objectStore('facilities').get(input.facilityId))) throw new Error('Facility not found');
+    if (!(await tx.objectStore('sports').get(input.sportId))) throw new Error('Sport not found');
+    if (input.sessionId) {
+      const session = await tx.objectStore('sessions').get(input.sessionId);
+      if (!session) throw new Error('Session not found');
+      if (session.sportId !== input.sportId) throw new Error('Session belongs to another sport');
+      if (input.recurrence === 'weekly' && weekdayOf(input.day) !== session.weekday) {
+        throw new Error('A weekly booking for a session must start on the session\'s weekday');
+      }
+    }
+
+    const now = new Date();
+    const bookingData: Booking = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const [conflict] = findBookingConflicts(bookingData, await bookingsStore.index('by-facility').getAll(input.facilityId));
+    if (conflict) throw new Error(`Facility is already booked ${describeBooking(conflict)}`);
+
+    const log = new WriteLog(tx);
+    await log.put('bookings', bookingData);
+    await this.commit(log, 'addBooking');
+    return bookingData;
+  }
+
+  async getAllBookings() {
+    const db = this.ensureDB();
+    return await db.getAll('bookings');
+  }
+
+  async deleteBooking(id: string) {
+    const db = this.ensureDB();
+    const tx = db.transaction(['bookings', 'auditLog'], 'readwrite');
+    const booking = await tx.objectStore('bookings').get(id);
+    if (!booking) throw new Error('Booking not found');
+
+    const log = new WriteLog(tx);
+    await log.delete('bookings', id);
+    await this.commit(log, 'deleteBooking');
+    return booking;
+  }
+
+  // Audited as one deletion per record, so the log still shows what the club held before
   async clearAllData() {
     const db = this.ensureDB();
-    const tx = db.transaction(['sports', 'members', 'subscriptions'], 'readwrite');
-    
-    await Promise.all([
-      tx.objectStore('sports').clear(),
-      tx.objectStore('members').clear(),
-      tx.objectStore('subscriptions').clear(),
-    ]);
+    const tx = db.transaction([...CLUB_DATA_STORES, 'counters', 'auditLog'], 'readwrite');
+    const log = new WriteLog(tx);
+
+    for (const store of CLUB_DATA_STORES) {
+      await log.clear(store);
+    }
+    await tx.objectStore('counters').clear();
+
+    await this.commitReset(log, 'clearAllData');
+  }
+
+  async exportData(): Promise<ClubData> {
+    return await this.exportStores(CLUB_DATA_STORES);
+  }
+
+  // Reads the given stores in one transaction, so the records are consistent with each other
+  async exportStores<K extends keyof ClubData>(names: readonly K[]): Promise<Pick<ClubData, K>> {
+    const db = this.ensureDB();
+    const tx = db.transaction([...names], 'readonly');
+    const records = await Promise.all(names.map(name => tx.objectStore(name).getAll()));
+    await tx.done;
+
+    return Object.fromEntries(names.map((name, i) => [name, records[i]])) as Pick<ClubData, K>;
+  }
+
+  // Writes back every record as it was before the command. Refused once any of them was changed again since,
+  // so an undo never overwrites later work.
+  async undo(command: UndoCommand) {
+    const db = this.ensureDB();
+    const tx = db.transaction([...new Set(command.entries.map(entry => entry.store)), 'auditLog'], 'readwrite');
+
+    for (const entry of command.entries) {
+      if (!isSameVersion(await tx.objectStore(entry.store).get(entry.id), entry.after)) {
+        throw new Error('Some of the affected records were changed since, so this can no longer be undone');
+      }
+    }
+
+    const log = new WriteLog(tx);
+    for (const entry of command.entries) {
+      if (entry.before) {
+        await log.put(entry.store, entry.before);
+      } else {
+        await log.delete(entry.store, entry.id);
+      }
+    }
+
+    await this.commit(log, 'undo');
+  }
+
+  // The newest audit entries matching the query, at most limit of them. Entries are matched while the by-at index
+  // is walked, so a page holds limit matching entries however many others lie between them.
+  // Dates given the wrong way round are swapped, since IDBKeyRange.bound throws when lower is above upper.
+  async getAuditLog({ from, to, store, matches, limit = Infinity }: AuditLogQuery = {}) {
+    const db = this.ensureDB();
+    const [lower, upper] = from && to && from > to ? [to, from] : [from, to];
+    const range = lower && upper ? IDBKeyRange.bound(lower, upper)
+      : lower ? IDBKeyRange.lowerBound(lower)
+      : upper ? IDBKeyRange.upperBound(upper)
+      : undefined;
+
+    const entries: AuditEntry[] = [];
+    let cursor = await db.transaction('auditLog').store.index('by-at').openCursor(range, 'prev');
+    while (cursor && entries.length < limit) {
+      const entry = cursor.value;
+      if ((!store || entry.store === store) && (!matches || matches(entry))) {
+        entries.push(entry);
+      }
+      cursor = await cursor.continue();
+    }
+    return entries;
+  }
+
+  // The records with the given ids that still exist, read in one transaction
+  async getRecords<K extends keyof ClubData>(store: K, ids: string[]): Promise<ClubData[K]> {
+    const db = this.ensureDB();
+    const tx = db.transaction(store, 'readonly');
+    const records = await Promise.all(ids.map(id => tx.store.get(id)));
+    await tx.done;
+
+    return records.filter(record => record !== undefined) as ClubData[K];
+  }
+
+  // Writes a backup in a single transaction: any failing record rolls back the whole restore.
+  // merge overwrites records with the same id and keeps the rest; replace starts from empty stores.
+  async restoreData(data: ClubData, mode: RestoreMode) {
+    const db = this.ensureDB();
+    const tx = db.transaction([...CLUB_DATA_STORES, 'counters', 'auditLog'], 'readwrite');
+    const log = new WriteLog(tx);
+    const putAll = async <K extends keyof ClubData>(store: K) => {
+      for (const record of data[store]) {
+        await log.put(store, record);
+      }
+    };
+
+    // Cleared records that the backup puts back are audited as updates, or not at all when unchanged
+    if (mode === 'replace') {
+      for (const store of CLUB_DATA_STORES) {
+        await log.clear(store);
+      }
+      await tx.objectStore('counters').clear();
+    }
+    for (const store of CLUB_DATA_STORES) {
+      await putAll(store);
+    }
+
+    // Counters are not part of backups: the next invoice number continues after the highest one restored
+    const countersStore = tx.objectStore('counters');
+    const counter = (await countersStore.get('invoice')) ?? { name: 'invoice', value: 0 };
+    const highestNumber = Math.max(counter.value, ...data.invoices.map(invoice => invoice.number));
+    await countersStore.put({ ...counter, value: highestNumber });
+
+    await this.commitReset(log, 'restoreData');
   }
 
   async close() {
@@ -319,4 +1840,5 @@ class SportingClubService {
 
 
 export const sportingClubService = new SportingClubService();
-export type { SportingClubDB };
\ No newline at end of file
+export { sortByWaitlistOrder, CLUB_DATA_STORES };
+export type { SportingClubDB, SubscriptionPeriod, MemberEdit, InvoiceLine, PastFee, PastDiscount, Qualification, DeleteImpact, ClubData, RestoreMode, ClubChange, WrittenRecord, UndoEntry, UndoCommand, AuditEntry, AuditLogQuery };
\ No newline at end of file
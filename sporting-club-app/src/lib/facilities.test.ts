@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { findBookingConflicts, type BookingSlot } from '@/lib/facilities';
+
+// 2025-03-05 and 2025-03-12 are Wednesdays, 2025-03-06 is a Thursday
+const slot = (overrides: Partial<BookingSlot> & { id: string }): BookingSlot & { id: string } => ({
+  facilityId: 'court-1',
+  recurrence: 'once',
+  day: '2025-03-05',
+  startTime: '18:00',
+  endTime: '19:00',
+  ...overrides,
+});
+
+const conflictIds = (candidate: BookingSlot, bookings: Array<BookingSlot & { id: string }>) =>
+  findBookingConflicts(candidate, bookings).map(booking => booking.id);
+
+describe('findBookingConflicts', () => {
+  it('finds one-off bookings on the same day and facility with overlapping times', () => {
+    const bookings = [
+      slot({ id: 'overlap', startTime: '18:30', endTime: '19:30' }),
+      slot({ id: 'other-day', day: '2025-03-06' }),
+      slot({ id: 'other-facility', facilityId: 'court-2' }),
+      slot({ id: 'later', startTime: '19:30', endTime: '20:30' }),
+    ];
+
+    expect(conflictIds(slot({ id: 'new' }), bookings)).toEqual(['overlap']);
+  });
+
+  it('finds weekly bookings that repeat on a one-off day within their range', () => {
+    const weekly = slot({ id: 'weekly', recurrence: 'weekly', day: '2025-03-05', until: '2025-03-19' });
+    const openEnded = slot({ id: 'open-ended', recurrence: 'weekly', day: '2025-03-05' });
+
+    expect(conflictIds(slot({ id: 'new', day: '2025-03-12' }), [weekly, openEnded])).toEqual(['weekly', 'open-ended']);
+    expect(conflictIds(slot({ id: 'new', day: '2025-03-26' }), [weekly, openEnded])).toEqual(['open-ended']);
+    expect(conflictIds(slot({ id: 'new', day: '2025-02-26' }), [weekly, openEnded])).toEqual([]);
+    expect(conflictIds(slot({ id: 'new', day: '2025-03-13' }), [weekly, openEnded])).toEqual([]);
+  });
+
+  it('checks a weekly candidate against one-off bookings inside and outside its until', () => {
+    const candidate = slot({ id: 'new', recurrence: 'weekly', day: '2025-03-05', until: '2025-03-19' });
+    const bookings = [
+      slot({ id: 'inside', day: '2025-03-19' }),
+      slot({ id: 'after-until', day: '2025-03-26' }),
+    ];
+
+    expect(conflictIds(candidate, bookings)).toEqual(['inside']);
+  });
+
+  it('finds weekly bookings on the same weekday whose ranges overlap', () => {
+    const candidate = slot({ id: 'new', recurrence: 'weekly', day: '2025-03-12', until: '2025-04-30' });
+    const bookings = [
+      slot({ id: 'same-weekday', recurrence: 'weekly', day: '2025-03-05' }),
+      slot({ id: 'other-weekday', recurrence: 'weekly', day: '2025-03-06' }),
+      slot({ id: 'ended-before', recurrence: 'weekly', day: '2025-01-01', until: '2025-03-05' }),
+      slot({ id: 'starts-after', recurrence: 'weekly', day: '2025-05-07' }),
+    ];
+
+    expect(conflictIds(candidate, bookings)).toEqual(['same-weekday']);
+  });
+
+  it('lets a booking start exactly when another ends', () => {
+    const bookings = [
+      slot({ id: 'before', startTime: '17:00', endTime: '18:00' }),
+      slot({ id: 'after', recurrence: 'weekly', startTime: '19:00', endTime: '20:00' }),
+    ];
+
+    expect(conflictIds(slot({ id: 'new' }), bookings)).toEqual([]);
+  });
+
+  it('never counts the candidate itself, so an edited booking does not conflict with its saved version', () => {
+    const saved = slot({ id: 'booking-1' });
+
+    expect(conflictIds(slot({ id: 'booking-1', endTime: '19:30' }), [saved])).toEqual([]);
+    expect(conflictIds(slot({ id: 'booking-2' }), [saved])).toEqual(['booking-1']);
+  });
+});
@@ -0,0 +1,74 @@
+import type { SportingClubDB } from '@/lib/db';
+import { weekdayOf, WEEKDAY_NAMES } from '@/lib/schedule';
+
+type Facility = SportingClubDB['facilities']['value'];
+type Booking = SportingClubDB['bookings']['value'];
+
+// The fields that decide when a booking holds its facility
+type BookingSlot = Pick<Booking, 'facilityId' | 'recurrence' | 'day' | 'until' | 'startTime' | 'endTime'> & { id?: string };
+
+export const FACILITY_KIND_LABELS: Record<Facility['kind'], string> = {
+  pitch: 'Pitch',
+  court: 'Court',
+  pool: 'Pool',
+  hall: 'Hall',
+  other: 'Other',
+};
+
+// Bookings without a last day repeat indefinitely
+const FOREVER = '9999-12-31';
+
+function lastDayOf(booking: BookingSlot) {
+  return booking.recurrence === 'once' ? booking.day : booking.until ?? FOREVER;
+}
+
+export function bookingOccursOn(booking: BookingSlot, day: string) {
+  if (booking.recurrence === 'once') return booking.day === day;
+  return day >= booking.day && day <= lastDayOf(booking) && weekdayOf(day) === weekdayOf(booking.day);
+}
+
+// Bookings holding a facility on the given day, earliest first
+export function bookingsOn<T extends BookingSlot>(bookings: T[], day: string) {
+  return bookings
+    .filter(booking => bookingOccursOn(booking, day))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+// HH:MM strings compare in time order, and a booking ending as another starts does not overlap it
+function timesOverlap(a: BookingSlot, b: BookingSlot) {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+// Whether the two bookings ever fall on the same day
+function sharesADay(a: BookingSlot, b: BookingSlot) {
+  if (a.recurrence === 'once') return bookingOccursOn(b, a.day);
+  if (b.recurrence === 'once') return bookingOccursOn(a, b.day);
+  return weekdayOf(a.day) === weekdayOf(b.day) && a.day <= lastDayOf(b) && b.day <= lastDayOf(a);
+}
+
+// Existing bookings the candidate would double-book its facility with. The candidate itself is never counted.
+export function findBookingConflicts<T extends BookingSlot>(candidate: BookingSlot, bookings: T[]) {
+  return bookings.filter(booking =>
+    booking.id !== candidate.id &&
+    booking.facilityId === candidate.facilityId &&
+    timesOverlap(candidate, booking) &&
+    sharesADay(candidate, booking)
+  );
+}
+
+// When the booking holds its facility, e.g. "every Wednesday 18:00–19:00"
+export function describeBooking(booking: BookingSlot) {
+  const times = `${booking.startTime}–${booking.endTime}`;
+  const formatDay = (day: string) => new Date(`${day}T12:00:00`).toLocaleDateString();
+
+  if (booking.recurrence === 'once') return `on ${formatDay(booking.day)} ${times}`;
+  const until = booking.until ? ` until ${formatDay(booking.until)}` : '';
+  return `every ${WEEKDAY_NAMES[weekdayOf(booking.day)]} ${times} from ${formatDay(booking.day)}${until}`;
+}
+
+export function minutesOf(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export type { BookingSlot };
@@ -0,0 +1,48 @@
+import type { SportingClubDB } from '@/lib/db';
+
+type Member = SportingClubDB['members']['value'];
+type Household = SportingClubDB['households']['value'];
+
+interface HouseholdGroup {
+  // Undefined for the members who do not belong to any household
+  household?: Household;
+  members: Member[];
+}
+
+// The household of every member who belongs to one, keyed by member id
+export function memberHouseholds(members: Member[], households: Household[]) {
+  const householdsById = new Map(households.map(household => [household.id, household]));
+  return new Map(members.flatMap(member => {
+    const household = member.householdId ? householdsById.get(member.householdId) : undefined;
+    return household ? [[member.id, household] as const] : [];
+  }));
+}
+
+// The family discount the household gave on the date, which may be an earlier one than today's
+export function discountOn(household: Household | undefined, date: Date) {
+  const past = household?.discountHistory?.find(entry => date < entry.until);
+  return past ? past.discountPercent : household?.discountPercent;
+}
+
+// The member's own email and phone, falling back to the household's primary contact
+export function memberContact(member: Member, household: Household | undefined) {
+  return {
+    email: member.email ?? household?.email ?? '',
+    phone: member.phone || household?.phone || '',
+    shared: (!member.email || !member.phone) && household !== undefined,
+  };
+}
+
+// Households by name, then the members without one. Members keep their order within each group.
+export function groupByHousehold(members: Member[], households: Household[]): HouseholdGroup[] {
+  const groups = [...households]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(household => ({ household, members: members.filter(member => member.householdId === household.id) }))
+    .filter(group => group.members.length > 0);
+
+  const householdIds = new Set(households.map(household => household.id));
+  const unhoused = members.filter(member => !member.householdId || !householdIds.has(member.householdId));
+  return unhoused.length > 0 ? [...groups, { members: unhoused }] : groups;
+}
+
+export type { HouseholdGroup };
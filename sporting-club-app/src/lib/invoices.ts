@@ -0,0 +1,54 @@
+import type { SportingClubDB, InvoiceLine } from '@/lib/db';
+import { applyDiscount, currentBillingCycle } from '@/lib/billing';
+import { discountOn } from '@/lib/households';
+import { toCalendarDay } from '@/lib/schedule';
+
+type Sport = SportingClubDB['sports']['value'];
+type Subscription = SportingClubDB['subscriptions']['value'];
+type Household = SportingClubDB['households']['value'];
+type Invoice = SportingClubDB['invoices']['value'];
+
+const PERIOD_LABELS = {
+  monthly: 'monthly fee',
+  annual: 'annual fee',
+  'one-off': 'one-off fee',
+};
+
+export function formatInvoiceNumber(number: number) {
+  return `INV-${String(number).padStart(6, '0')}`;
+}
+
+// One line per active subscription to a sport with a fee, billing the cycle that contains asOf
+// at the fee and family discount in force when that cycle fell due, as the member's balance does
+export function buildInvoiceLines(
+  subscriptions: Subscription[],
+  sportsById: Map<string, Sport>,
+  asOf = new Date(),
+  household?: Household
+): InvoiceLine[] {
+  return subscriptions.flatMap(subscription => {
+    const sport = sportsById.get(subscription.sportId);
+    const cycle = currentBillingCycle(subscription, sport, asOf);
+    if (!sport || !cycle?.feeCents) return [];
+    const discountPercent = discountOn(household, cycle.startDate);
+
+    return [{
+      subscriptionId: subscription.id,
+      sportId: sport.id,
+      description: `${sport.name}, ${PERIOD_LABELS[cycle.billingPeriod ?? 'one-off']}${
+        discountPercent ? `, ${discountPercent}% family discount` : ''
+      }`,
+      periodStart: cycle.startDate,
+      periodEnd: cycle.endDate,
+      amountCents: applyDiscount(cycle.feeCents, discountPercent),
+    }];
+  });
+}
+
+// Leaves out the cycles the given invoices already bill, so invoicing a member twice never charges a cycle twice.
+// Cycles are matched by their start day, as earlier invoices started the first cycle at midnight.
+export function withoutInvoicedCycles(lines: InvoiceLine[], invoices: Invoice[]): InvoiceLine[] {
+  const cycleKey = (line: InvoiceLine) => `${line.subscriptionId}/${toCalendarDay(line.periodStart)}`;
+  const invoiced = new Set(invoices.flatMap(invoice => invoice.lines.map(cycleKey)));
+  return lines.filter(line => !invoiced.has(cycleKey(line)));
+}
@@ -0,0 +1,144 @@
+import { SportingClubDB } from '@/lib/db';
+import { memberInputSchema } from '@/lib/schemas';
+
+type Member = SportingClubDB['members']['value'];
+type ImportedMember = Omit<Member, 'id' | 'createdAt' | 'updatedAt'>;
+
+type MemberImportField = 'firstName' | 'lastName' | 'email' | 'phone' | 'dateOfBirth' | 'address' | 'status';
+type ColumnMapping = Record<MemberImportField, number | null>;
+type DateFormat = 'auto' | 'yyyy-mm-dd' | 'dd/mm/yyyy' | 'mm/dd/yyyy';
+
+interface MemberImportRow {
+  rowNumber: number;
+  values: Record<MemberImportField, string>;
+  member: ImportedMember | null;
+  errors: string[];
+}
+
+export const MEMBER_IMPORT_FIELDS: Array<{ field: MemberImportField; label: string; aliases: string[] }> = [
+  { field: 'firstName', label: 'First Name', aliases: ['firstname', 'first', 'givenname', 'forename'] },
+  { field: 'lastName', label: 'Last Name', aliases: ['lastname', 'last', 'surname', 'familyname'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'emailaddress', 'mail'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'phonenumber', 'telephone', 'mobile', 'tel'] },
+  { field: 'dateOfBirth', label: 'Date of Birth', aliases: ['dateofbirth', 'dob', 'birthdate', 'birthday', 'born'] },
+  { field: 'address', label: 'Address', aliases: ['address', 'streetaddress', 'homeaddress'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'memberstatus', 'membershipstatus'] },
+];
+
+export const DATE_FORMATS: Array<{ value: DateFormat; label: string }> = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'yyyy-mm-dd', label: 'YYYY-MM-DD' },
+  { value: 'dd/mm/yyyy', label: 'DD/MM/YYYY' },
+  { value: 'mm/dd/yyyy', label: 'MM/DD/YYYY' },
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  for (const { field, aliases } of MEMBER_IMPORT_FIELDS) {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    mapping[field] = index === -1 ? null : index;
+  }
+
+  return mapping;
+}
+
+// Dates are stored at UTC midnight, like the <input type="date"> values of the members form
+function toUtcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const isValid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return isValid ? date : null;
+}
+
+export function parseImportDate(value: string, format: DateFormat): Date | null {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso && (format === 'auto' || format === 'yyyy-mm-dd')) {
+    return toUtcDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const dayFirstOrMonthFirst = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (!dayFirstOrMonthFirst) return null;
+
+  const first = Number(dayFirstOrMonthFirst[1]);
+  const second = Number(dayFirstOrMonthFirst[2]);
+  const year = Number(dayFirstOrMonthFirst[3]);
+
+  if (format === 'dd/mm/yyyy') return toUtcDate(year, second, first);
+  if (format === 'mm/dd/yyyy') return toUtcDate(year, first, second);
+  if (format !== 'auto') return null;
+
+  // Auto-detection only succeeds when one part cannot be a month
+  if (first > 12 && second <= 12) return toUtcDate(year, second, first);
+  if (second > 12 && first <= 12) return toUtcDate(year, first, second);
+  return null;
+}
+
+function parseStatus(value: string): Member['status'] | null {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '' || normalized === 'active') return 'active';
+  if (normalized === 'inactive') return 'inactive';
+  return null;
+}
+
+// Turns CSV data rows (without the header) into validated members, reporting every problem per row
+export function buildMemberImportPreview(
+  rows: string[][],
+  mapping: ColumnMapping,
+  dateFormat: DateFormat,
+  existingEmails: string[]
+): MemberImportRow[] {
+  const seenEmails = new Set(existingEmails.map(email => email.toLowerCase()));
+
+  return rows.map((row, index) => {
+    const values = {} as Record<MemberImportField, string>;
+    for (const { field } of MEMBER_IMPORT_FIELDS) {
+      const column = mapping[field];
+      values[field] = column === null ? '' : (row[column] ?? '').trim();
+    }
+
+    const errors: string[] = [];
+
+    const dateOfBirth = values.dateOfBirth ? parseImportDate(values.dateOfBirth, dateFormat) : null;
+    if (!values.dateOfBirth) {
+      errors.push('Date of birth is required');
+    } else if (!dateOfBirth) {
+      errors.push(`Unrecognized date of birth "${values.dateOfBirth}"`);
+    }
+
+    const status = parseStatus(values.status);
+    if (!status) {
+      errors.push(`Status must be "active" or "inactive", got "${values.status}"`);
+    }
+
+    // Same rules as the members form and SportingClubService.addMember
+    const result = memberInputSchema.safeParse({ ...values, dateOfBirth, status, membershipDate: new Date() });
+    if (!result.success) {
+      const reported = new Set([...(dateOfBirth ? [] : ['dateOfBirth']), ...(status ? [] : ['status'])]);
+      errors.push(
+        ...result.error.issues
+          .filter(issue => !reported.has(String(issue.path[0])))
+          .map(issue => issue.message)
+      );
+    }
+
+    const email = values.email.toLowerCase();
+    if (email) {
+      if (seenEmails.has(email)) {
+        errors.push(`Email ${values.email} is already registered or appears earlier in the file`);
+      }
+      seenEmails.add(email);
+    }
+
+    const member = errors.length === 0 && result.success ? result.data : null;
+
+    // Row 1 is the header in the source file
+    return { rowNumber: index + 2, values, member, errors };
+  });
+}
+
+export type { MemberImportField, ColumnMapping, DateFormat, MemberImportRow, ImportedMember };
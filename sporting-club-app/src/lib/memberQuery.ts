@@ -0,0 +1,100 @@
+import { SportingClubDB } from '@/lib/db';
+
+type Member = SportingClubDB['members']['value'];
+
+// archived lists only archived members; every other filter leaves them out
+type MemberStatusFilter = 'all' | Member['status'] | 'archived';
+type MemberSortKey = 'name' | 'membershipDate' | 'age';
+type SortDirection = 'asc' | 'desc';
+type MemberGrouping = 'none' | 'household';
+
+interface MemberQuery {
+  search: string;
+  status: MemberStatusFilter;
+  sort: MemberSortKey;
+  direction: SortDirection;
+  group: MemberGrouping;
+  page: number;
+}
+
+export const MEMBERS_PAGE_SIZE = 12;
+
+export const DEFAULT_MEMBER_QUERY: MemberQuery = {
+  search: '',
+  status: 'all',
+  sort: 'name',
+  direction: 'asc',
+  group: 'none',
+  page: 1,
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// Reads the view from the URL, falling back to defaults for missing or unknown values
+export function parseMemberQuery(params: URLSearchParams): MemberQuery {
+  const page = Number(params.get('page'));
+
+  return {
+    search: params.get('q') ?? DEFAULT_MEMBER_QUERY.search,
+    status: oneOf(params.get('status'), ['all', 'active', 'inactive', 'archived'], DEFAULT_MEMBER_QUERY.status),
+    sort: oneOf(params.get('sort'), ['name', 'membershipDate', 'age'], DEFAULT_MEMBER_QUERY.sort),
+    direction: oneOf(params.get('dir'), ['asc', 'desc'], DEFAULT_MEMBER_QUERY.direction),
+    group: oneOf(params.get('group'), ['none', 'household'], DEFAULT_MEMBER_QUERY.group),
+    page: Number.isInteger(page) && page > 0 ? page : DEFAULT_MEMBER_QUERY.page,
+  };
+}
+
+// Only non-default values are written so shared URLs stay short
+export function serializeMemberQuery(query: MemberQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.status !== DEFAULT_MEMBER_QUERY.status) params.set('status', query.status);
+  if (query.sort !== DEFAULT_MEMBER_QUERY.sort) params.set('sort', query.sort);
+  if (query.direction !== DEFAULT_MEMBER_QUERY.direction) params.set('dir', query.direction);
+  if (query.group !== DEFAULT_MEMBER_QUERY.group) params.set('group', query.group);
+  if (query.page !== DEFAULT_MEMBER_QUERY.page) params.set('page', String(query.page));
+  return params;
+}
+
+export function searchMembers(members: Member[], search: string): Member[] {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return members;
+
+  return members.filter(member => {
+    const haystack = `${member.firstName} ${member.lastName} ${member.email ?? ''} ${member.phone}`.toLowerCase();
+    // Phone numbers match regardless of spaces, dashes or brackets
+    const digits = member.phone.replace(/\D/g, '');
+    return terms.every(term => haystack.includes(term) || (/^\d+$/.test(term) && digits.includes(term)));
+  });
+}
+
+export function sortMembers(members: Member[], sort: MemberSortKey, direction: SortDirection): Member[] {
+  const compare = (a: Member, b: Member) => {
+    switch (sort) {
+      case 'name':
+        return `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`);
+      case 'membershipDate':
+        return a.membershipDate.getTime() - b.membershipDate.getTime();
+      case 'age':
+        // Older members have earlier birth dates
+        return b.dateOfBirth.getTime() - a.dateOfBirth.getTime();
+    }
+  };
+
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...members].sort((a, b) => sign * compare(a, b));
+}
+
+export function paginate<T>(items: T[], page: number, pageSize = MEMBERS_PAGE_SIZE) {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+
+  return {
+    items: items.slice((currentPage - 1) * pageSize, currentPage * pageSize),
+    page: currentPage,
+    pageCount,
+  };
+}
+
+export type { MemberQuery, MemberStatusFilter, MemberSortKey, SortDirection, MemberGrouping };
@@ -0,0 +1,68 @@
+import { SportingClubDB } from '@/lib/db';
+
+type Member = SportingClubDB['members']['value'];
+
+// Shape returned by selectSubscriptionHistory
+interface SubscriptionHistoryEntry {
+  subscription: SportingClubDB['subscriptions']['value'];
+  sport?: SportingClubDB['sports']['value'];
+  periods: Array<{ startDate: Date; endDate?: Date }>;
+}
+
+type TimelineEventKind = 'joined' | 'subscribed' | 'left' | 'waitlisted' | 'edited';
+
+interface TimelineEvent {
+  date: Date;
+  kind: TimelineEventKind;
+  title: string;
+  detail?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  firstName: 'first name',
+  lastName: 'last name',
+  email: 'email',
+  phone: 'phone',
+  address: 'address',
+  dateOfBirth: 'date of birth',
+  membershipDate: 'membership date',
+  status: 'status',
+  householdId: 'household',
+};
+
+export const formatEditField = (field: string) => FIELD_LABELS[field] ?? field;
+
+// Everything that happened to a member, newest first
+export function buildMemberTimeline(member: Member, history: SubscriptionHistoryEntry[]): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    { date: member.membershipDate, kind: 'joined', title: 'Joined the club' },
+  ];
+
+  for (const { subscription, sport, periods } of history) {
+    const sportName = sport?.name ?? 'Unknown sport';
+
+    for (const period of periods) {
+      events.push({ date: period.startDate, kind: 'subscribed', title: `Subscribed to ${sportName}` });
+      if (period.endDate) {
+        events.push({ date: period.endDate, kind: 'left', title: `Left ${sportName}` });
+      }
+    }
+
+    if (subscription.status === 'waitlisted' && subscription.waitlistedAt) {
+      events.push({ date: subscription.waitlistedAt, kind: 'waitlisted', title: `Joined the ${sportName} waitlist` });
+    }
+  }
+
+  for (const edit of member.edits ?? []) {
+    events.push({
+      date: edit.editedAt,
+      kind: 'edited',
+      title: 'Profile edited',
+      detail: `Changed ${edit.changes.map(change => formatEditField(change.field)).join(', ')}`,
+    });
+  }
+
+  return events.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+export type { SubscriptionHistoryEntry, TimelineEvent, TimelineEventKind };
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { openDB } from 'idb';
+import { LATEST_DB_VERSION, migrations, runMigrations } from '@/lib/migrations';
+import { sportingClubService } from '@/lib/db';
+
+const DB_NAME = 'SportingClubDB';
+
+const EXPECTED_INDEXES: Record<string, string[]> = {
+  sports: ['by-category'],
+  members: ['by-email', 'by-household', 'by-status'],
+  subscriptions: ['by-member', 'by-member-sport', 'by-sport'],
+  payments: ['by-member', 'by-subscription'],
+  invoices: ['by-member', 'by-number'],
+  counters: [],
+  sessions: ['by-sport'],
+  attendance: ['by-member', 'by-occurrence', 'by-occurrence-member', 'by-session'],
+  staff: ['by-role'],
+  staffAssignments: ['by-sport', 'by-staff', 'by-staff-sport'],
+  facilities: [],
+  bookings: ['by-facility', 'by-session', 'by-sport'],
+  households: [],
+  auditLog: ['by-at'],
+};
+
+// A database as version 1 of the app left it: subscriptions without period history or cancellation date
+async function seedVersion1() {
+  const db = await openDB(DB_NAME, 1, {
+    upgrade(db, _oldVersion, _newVersion, transaction) {
+      void migrations[0].upgrade(db as never, transaction as never);
+    },
+  });
+
+  const created = new Date('2024-01-10T10:00:00Z');
+  const cancelled = new Date('2024-03-05T10:00:00Z');
+  await db.put('sports', {
+    id: 's1', name: 'Tennis', description: '', category: 'Racquet Sports', createdAt: created, updatedAt: created,
+  });
+  await db.put('members', {
+    id: 'm1', firstName: 'Jane', lastName: 'Doe', email: 'jane@example.com', phone: '555', dateOfBirth: created,
+    address: '1 Main St', membershipDate: created, status: 'active', createdAt: created, updatedAt: created,
+  });
+  await db.put('subscriptions', {
+    id: 'sub-cancelled', memberId: 'm1', sportId: 's1', subscriptionDate: created, status: 'cancelled',
+    createdAt: created, updatedAt: cancelled,
+  });
+  await db.put('subscriptions', {
+    id: 'sub-active', memberId: 'm2', sportId: 's1', subscriptionDate: created, status: 'active',
+    createdAt: created, updatedAt: created,
+  });
+  db.close();
+  return { cancelled };
+}
+
+describe('migrations', () => {
+  it('upgrades a seeded version 1 database to the latest version', async () => {
+    const { cancelled } = await seedVersion1();
+
+    await sportingClubService.init();
+    const subscriptions = await sportingClubService.getAllSubscriptions();
+    await sportingClubService.close();
+
+    const cancelledSubscription = subscriptions.find(sub => sub.id === 'sub-cancelled');
+    expect(cancelledSubscription?.history).toEqual([]);
+    expect(cancelledSubscription?.cancelledAt).toEqual(cancelled);
+    const activeSubscription = subscriptions.find(sub => sub.id === 'sub-active');
+    expect(activeSubscription?.history).toEqual([]);
+    expect(activeSubscription?.cancelledAt).toBeUndefined();
+
+    // Opening without a version reads the schema as it was left
+    const db = await openDB(DB_NAME);
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(Object.keys(EXPECTED_INDEXES).sort());
+    const tx = db.transaction([...db.objectStoreNames], 'readonly');
+    for (const [store, indexes] of Object.entries(EXPECTED_INDEXES)) {
+      expect([...tx.objectStore(store).indexNames].sort(), store).toEqual(indexes);
+    }
+    db.close();
+  });
+
+  it('has a path from every released version to the latest one', () => {
+    const versions = migrations.map(migration => migration.fromVersion);
+    expect(versions).toEqual([...Array(LATEST_DB_VERSION).keys()]);
+  });
+
+  it('aborts the upgrade and passes on the error when a migration fails', async () => {
+    const transaction = { abort: vi.fn() };
+
+    await expect(runMigrations({} as never, LATEST_DB_VERSION, LATEST_DB_VERSION + 1, transaction as never))
+      .rejects.toThrow(`No migration found from database version ${LATEST_DB_VERSION}`);
+    expect(transaction.abort).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,191 @@
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { SportingClubDB } from '@/lib/db';
+
+type UpgradeDB = IDBPDatabase<SportingClubDB>;
+type UpgradeTransaction = IDBPTransaction<SportingClubDB, StoreNames<SportingClubDB>[], 'versionchange'>;
+
+export interface Migration {
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  upgrade: (db: UpgradeDB, transaction: UpgradeTransaction) => void | Promise<void>;
+}
+
+// Rewrites every record of a store in place. Only usable inside an upgrade transaction.
+export async function transformRecords<Name extends StoreNames<SportingClubDB>>(
+  transaction: UpgradeTransaction,
+  storeName: Name,
+  transform: (record: SportingClubDB[Name]['value']) => SportingClubDB[Name]['value']
+): Promise<void> {
+  let cursor = await transaction.objectStore(storeName).openCursor();
+  while (cursor) {
+    await cursor.update(transform(cursor.value));
+    cursor = await cursor.continue();
+  }
+}
+
+// Ordered list of schema migrations. Never edit a released entry: append a new one instead.
+export const migrations: Migration[] = [
+  {
+    fromVersion: 0,
+    toVersion: 1,
+    description: 'Create sports, members and subscriptions stores',
+    upgrade(db) {
+      const sportsStore = db.createObjectStore('sports', { keyPath: 'id' });
+      sportsStore.createIndex('by-category', 'category');
+
+      // Members store
+      const membersStore = db.createObjectStore('members', { keyPath: 'id' });
+      membersStore.createIndex('by-email', 'email', { unique: true });
+      membersStore.createIndex('by-status', 'status');
+
+      // Subscriptions store
+      const subscriptionsStore = db.createObjectStore('subscriptions', { keyPath: 'id' });
+      subscriptionsStore.createIndex('by-member', 'memberId');
+      subscriptionsStore.createIndex('by-sport', 'sportId');
+      subscriptionsStore.createIndex('by-member-sport', ['memberId', 'sportId'], { unique: true });
+    },
+  },
+  {
+    fromVersion: 1,
+    toVersion: 2,
+    description: 'Keep past subscription periods so cancelled subscriptions can be reactivated',
+    upgrade(_db, transaction) {
+      return transformRecords(transaction, 'subscriptions', subscription => ({
+        ...subscription,
+        history: subscription.history ?? [],
+        cancelledAt: subscription.status === 'cancelled'
+          ? subscription.cancelledAt ?? subscription.updatedAt
+          : undefined,
+      }));
+    },
+  },
+  {
+    fromVersion: 2,
+    toVersion: 3,
+    description: 'Add payments store for manually recorded membership fee payments',
+    upgrade(db) {
+      const paymentsStore = db.createObjectStore('payments', { keyPath: 'id' });
+      paymentsStore.createIndex('by-member', 'memberId');
+      paymentsStore.createIndex('by-subscription', 'subscriptionId');
+    },
+  },
+  {
+    fromVersion: 3,
+    toVersion: 4,
+    description: 'Add invoices store and counters store for sequential invoice numbers',
+    upgrade(db) {
+      const invoicesStore = db.createObjectStore('invoices', { keyPath: 'id' });
+      invoicesStore.createIndex('by-member', 'memberId');
+      invoicesStore.createIndex('by-number', 'number', { unique: true });
+
+      db.createObjectStore('counters', { keyPath: 'name' });
+    },
+  },
+  {
+    fromVersion: 4,
+    toVersion: 5,
+    description: 'Add sessions store for recurring weekly training sessions',
+    upgrade(db) {
+      const sessionsStore = db.createObjectStore('sessions', { keyPath: 'id' });
+      sessionsStore.createIndex('by-sport', 'sportId');
+    },
+  },
+  {
+    fromVersion: 5,
+    toVersion: 6,
+    description: 'Add attendance store for session check-ins',
+    upgrade(db) {
+      const attendanceStore = db.createObjectStore('attendance', { keyPath: 'id' });
+      attendanceStore.createIndex('by-member', 'memberId');
+      attendanceStore.createIndex('by-session', 'sessionId');
+      attendanceStore.createIndex('by-occurrence', ['sessionId', 'day']);
+      attendanceStore.createIndex('by-occurrence-member', ['sessionId', 'day', 'memberId'], { unique: true });
+    },
+  },
+  {
+    fromVersion: 6,
+    toVersion: 7,
+    description: 'Add staff store and staff-to-sport assignments',
+    upgrade(db) {
+      const staffStore = db.createObjectStore('staff', { keyPath: 'id' });
+      staffStore.createIndex('by-role', 'role');
+
+      const assignmentsStore = db.createObjectStore('staffAssignments', { keyPath: 'id' });
+      assignmentsStore.createIndex('by-staff', 'staffId');
+      assignmentsStore.createIndex('by-sport', 'sportId');
+      assignmentsStore.createIndex('by-staff-sport', ['staffId', 'sportId'], { unique: true });
+    },
+  },
+  {
+    fromVersion: 7,
+    toVersion: 8,
+    description: 'Add facilities and bookings stores',
+    upgrade(db) {
+      db.createObjectStore('facilities', { keyPath: 'id' });
+
+      const bookingsStore = db.createObjectStore('bookings', { keyPath: 'id' });
+      bookingsStore.createIndex('by-facility', 'facilityId');
+      bookingsStore.createIndex('by-sport', 'sportId');
+      bookingsStore.createIndex('by-session', 'sessionId');
+    },
+  },
+  {
+    fromVersion: 8,
+    toVersion: 9,
+    description: 'Add households store and index members by household',
+    upgrade(db, transaction) {
+      db.createObjectStore('households', { keyPath: 'id' });
+      transaction.objectStore('members').createIndex('by-household', 'householdId');
+    },
+  },
+  {
+    fromVersion: 9,
+    toVersion: 10,
+    description: 'Add append-only auditLog store of every data change',
+    upgrade(db) {
+      const auditLogStore = db.createObjectStore('auditLog', { keyPath: 'id' });
+      auditLogStore.createIndex('by-at', 'at');
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = migrations[migrations.length - 1].toVersion;
+
+export function getMigrationPath(oldVersion: number, newVersion: number): Migration[] {
+  const path: Migration[] = [];
+  let version = oldVersion;
+
+  while (version < newVersion) {
+    const next = migrations.find(migration => migration.fromVersion === version);
+    if (!next) {
+      throw new Error(`No migration found from database version ${version}`);
+    }
+    path.push(next);
+    version = next.toVersion;
+  }
+
+  if (version !== newVersion) {
+    throw new Error(`Migrations overshoot target database version ${newVersion}`);
+  }
+
+  return path;
+}
+
+export async function runMigrations(
+  db: UpgradeDB,
+  oldVersion: number,
+  newVersion: number,
+  transaction: UpgradeTransaction
+): Promise<void> {
+  try {
+    for (const migration of getMigrationPath(oldVersion, newVersion)) {
+      await migration.upgrade(db, transaction);
+    }
+  } catch (err) {
+    // Aborting rolls the database back to oldVersion so a failed migration never leaves it half-upgraded.
+    // The open request then only fails with an AbortError, so the cause is passed on to the caller.
+    transaction.abort();
+    throw err;
+  }
+}
@@ -0,0 +1,48 @@
+import { SportingClubDB } from '@/lib/db';
+import { toCsv } from '@/lib/csv';
+import { calculateAge } from '@/lib/utils';
+
+interface SportRoster {
+  sport: SportingClubDB['sports']['value'];
+  entries: Array<{
+    member: SportingClubDB['members']['value'];
+    subscription: SportingClubDB['subscriptions']['value'];
+  }>;
+}
+
+const ROSTER_COLUMNS = ['First Name', 'Last Name', 'Email', 'Phone', 'Address', 'Age', 'Subscribed On'];
+
+const formatIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function rosterRows(roster: SportRoster): string[][] {
+  return roster.entries.map(({ member, subscription }) => [
+    member.firstName,
+    member.lastName,
+    member.email ?? '',
+    member.phone,
+    member.address,
+    String(calculateAge(member.dateOfBirth)),
+    formatIsoDate(subscription.subscriptionDate),
+  ]);
+}
+
+export function rosterToCsv(roster: SportRoster): string {
+  return toCsv([ROSTER_COLUMNS, ...rosterRows(roster)]);
+}
+
+// One section per sport: a title row, the column headers, the members, then a blank separator row
+export function rostersToCsv(rosters: SportRoster[]): string {
+  return toCsv(rosters.flatMap(roster => [
+    [`${roster.sport.name} (${roster.sport.category})`],
+    ROSTER_COLUMNS,
+    ...rosterRows(roster),
+    [],
+  ]));
+}
+
+export function rosterFileName(name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `roster-${slug || 'sport'}-${formatIsoDate(new Date())}.csv`;
+}
+
+export type { SportRoster };
@@ -0,0 +1,57 @@
+import type { SportingClubDB } from '@/lib/db';
+
+type Session = SportingClubDB['sessions']['value'];
+
+interface SessionOccurrence {
+  session: Session;
+  // Skipped on this day through one of the session's exceptions
+  cancelled: boolean;
+}
+
+interface ScheduleDay {
+  date: Date;
+  // YYYY-MM-DD, the format session exceptions are kept in
+  day: string;
+  occurrences: SessionOccurrence[];
+}
+
+// Indexed by Date.getDay(), like Session.weekday
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Weeks run Monday to Sunday
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export function toCalendarDay(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Noon keeps the weekday right whatever the local UTC offset
+export function weekdayOf(day: string) {
+  return new Date(`${day}T12:00:00`).getDay();
+}
+
+export function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Local midnight of the Monday on or before date
+export function startOfWeek(date: Date) {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+// The seven days of the week starting at weekStart, each with its sessions in start time order
+export function buildWeekSchedule(sessions: Session[], weekStart: Date): ScheduleDay[] {
+  return Array.from({ length: 7 }, (_, offset) => {
+    const date = addDays(weekStart, offset);
+    const day = toCalendarDay(date);
+    const occurrences = sessions
+      .filter(session => session.weekday === date.getDay())
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .map(session => ({ session, cancelled: session.exceptions.includes(day) }));
+    return { date, day, occurrences };
+  });
+}
+
+export type { SessionOccurrence, ScheduleDay };
@@ -0,0 +1,324 @@
+import { z } from 'zod';
+
+// Shared validation rules. The *FormSchema variants take raw form strings and output the
+// same shape the *InputSchema variants accept, so forms and SportingClubService apply identical rules.
+
+const requiredText = (message: string) => z.string().trim().min(1, { error: message, abort: true });
+
+const maxMembersField = z
+  .number({ error: 'Max members must be a number' })
+  .int('Max members must be a whole number')
+  .positive('Max members must be at least 1');
+
+const centsField = (label: string) => z
+  .number({ error: `${label} must be a number` })
+  .int(`${label} must be a whole number of cents`)
+  .positive(`${label} must be greater than zero`);
+
+// "12.50" or "12,50" -> 1250; anything unparseable becomes NaN and fails the number check
+const toCents = (value: string) => Math.round(Number(value.replace(',', '.')) * 100);
+
+const emailField = requiredText('Email is required').pipe(z.email('Email is invalid'));
+
+const dateOfBirthField = z
+  .date({ error: 'Date of birth is invalid' })
+  .refine(date => date <= new Date(), 'Date of birth cannot be in the future');
+
+const memberStatusField = z.enum(['active', 'inactive']);
+
+const billingPeriodField = z.enum(['monthly', 'annual']);
+
+export const PAYMENT_METHODS = ['cash', 'transfer', 'card'] as const;
+
+const timeField = (label: string) => z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, `${label} must be a time like 18:30`);
+
+const weekdayField = z
+  .number({ error: 'Please select a weekday' })
+  .int()
+  .min(0, 'Please select a weekday')
+  .max(6, 'Please select a weekday');
+
+// A calendar day without a time zone, as produced by <input type="date">
+export const calendarDayField = z.iso.date('Date is invalid');
+
+export const ATTENDANCE_STATUSES = ['present', 'absent', 'excused'] as const;
+
+export const STAFF_ROLES = ['coach', 'assistant', 'manager', 'volunteer'] as const;
+
+export const FACILITY_KINDS = ['pitch', 'court', 'pool', 'hall', 'other'] as const;
+
+const qualificationExpiryField = z.date({ error: 'Expiry date is invalid' });
+
+const sportFields = {
+  name: requiredText('Sport name is required'),
+  description: requiredText('Description is required'),
+  category: requiredText('Category is required'),
+};
+
+const memberFields = {
+  firstName: requiredText('First name is required'),
+  lastName: requiredText('Last name is required'),
+  phone: z.string().trim(),
+  address: requiredText('Address is required'),
+  status: memberStatusField,
+};
+
+// Members of a household may leave their own email and phone empty and be reached through its primary contact
+type MemberContact = { email?: string; phone: string; householdId?: string };
+const emailOrHousehold = (member: MemberContact) => member.email !== undefined || member.householdId !== undefined;
+const emailOrHouseholdError = { error: 'Email is required unless the member belongs to a household', path: ['email'] };
+const phoneOrHousehold = (member: MemberContact) => member.phone !== '' || member.householdId !== undefined;
+const phoneOrHouseholdError = { error: 'Phone number is required unless the member belongs to a household', path: ['phone'] };
+
+const discountPercentField = z
+  .number({ error: 'Discount must be a number' })
+  .int('Discount must be a whole percentage')
+  .min(1, 'Discount must be between 1 and 100%')
+  .max(100, 'Discount must be between 1 and 100%');
+
+const householdFields = {
+  name: requiredText('Household name is required'),
+  contactName: requiredText('Primary contact is required'),
+  email: emailField,
+  phone: requiredText('Phone number is required'),
+};
+
+export const sportInputSchema = z.object({
+  ...sportFields,
+  maxMembers: maxMembersField.optional(),
+  feeCents: centsField('Fee').optional(),
+  billingPeriod: billingPeriodField.optional(),
+});
+
+export const sportFormSchema = z.object({
+  ...sportFields,
+  maxMembers: z
+    .string()
+    .trim()
+    .transform(value => (value === '' ? undefined : Number(value)))
+    .pipe(maxMembersField.optional()),
+  fee: z
+    .string()
+    .trim()
+    .transform(value => (value === '' ? undefined : toCents(value)))
+    .pipe(centsField('Fee').optional()),
+  // 'one-off' is stored as no billing period
+  billingPeriod: z
+    .enum(['one-off', 'monthly', 'annual'])
+    .transform(value => (value === 'one-off' ? undefined : value)),
+}).transform(({ fee, ...sport }) => ({ ...sport, feeCents: fee }));
+
+const memberObjectSchema = z.object({
+  ...memberFields,
+  email: emailField.optional(),
+  householdId: z.string().min(1).optional(),
+  dateOfBirth: dateOfBirthField,
+  membershipDate: z.date({ error: 'Membership date is invalid' }),
+});
+
+export const memberInputSchema = memberObjectSchema
+  .refine(emailOrHousehold, emailOrHouseholdError)
+  .refine(phoneOrHousehold, phoneOrHouseholdError);
+
+// Refined schemas cannot be made partial: updates are checked field by field, then merged and checked whole
+export const memberUpdateSchema = memberObjectSchema.partial();
+
+// 'none' is the "no household" choice of the household picker
+export const memberFormSchema = z.object({
+  ...memberFields,
+  email: z
+    .string()
+    .trim()
+    .transform(value => (value === '' ? undefined : value))
+    .pipe(z.email('Email is invalid').optional()),
+  householdId: z.string().transform(value => (value === '' || value === 'none' ? undefined : value)),
+  dateOfBirth: requiredText('Date of birth is required')
+    .transform(value => new Date(value))
+    .pipe(dateOfBirthField),
+})
+  .refine(emailOrHousehold, emailOrHouseholdError)
+  .refine(phoneOrHousehold, phoneOrHouseholdError);
+
+export const householdInputSchema = z.object({
+  ...householdFields,
+  discountPercent: discountPercentField.optional(),
+});
+
+export const householdFormSchema = z.object({
+  ...householdFields,
+  discountPercent: z
+    .string()
+    .trim()
+    .transform(value => (value === '' ? undefined : Number(value)))
+    .pipe(discountPercentField.optional()),
+});
+
+export const subscriptionInputSchema = z.object({
+  memberId: requiredText('Please select a member'),
+  sportId: requiredText('Please select a sport'),
+});
+
+export const paymentInputSchema = z.object({
+  subscriptionId: requiredText('Please select a subscription'),
+  amountCents: centsField('Amount'),
+  paidAt: z
+    .date({ error: 'Payment date is invalid' })
+    .refine(date => date <= new Date(), 'Payment date cannot be in the future'),
+  method: z.enum(PAYMENT_METHODS, { error: 'Please select a payment method' }),
+  reference: z.string().trim(),
+});
+
+// memberId only narrows the subscription picker; the service takes the member from the subscription
+export const paymentFormSchema = z.object({
+  memberId: requiredText('Please select a member'),
+  subscriptionId: requiredText('Please select a subscription'),
+  amount: requiredText('Amount is required')
+    .transform(toCents)
+    .pipe(centsField('Amount')),
+  paidAt: requiredText('Payment date is required')
+    .transform(value => new Date(value))
+    .pipe(paymentInputSchema.shape.paidAt),
+  method: paymentInputSchema.shape.method,
+  reference: z.string().trim(),
+}).transform(({ amount, ...payment }) => ({ ...payment, amountCents: amount }));
+
+// Settling an invoice books one payment per line, so only the shared payment details are asked for
+export const invoicePaymentInputSchema = paymentInputSchema.pick({ paidAt: true, method: true, reference: true });
+
+export const invoicePaymentFormSchema = z.object({
+  paidAt: paymentFormSchema.in.shape.paidAt,
+  method: paymentInputSchema.shape.method,
+  reference: z.string().trim(),
+});
+
+const sessionFields = {
+  sportId: requiredText('Please select a sport'),
+  startTime: timeField('Start time'),
+  endTime: timeField('End time'),
+  location: requiredText('Location is required'),
+  coach: requiredText('Coach is required'),
+};
+
+// HH:MM strings compare in time order
+const endsAfterStart = (session: { startTime: string; endTime: string }) => session.endTime > session.startTime;
+const endsAfterStartError = { error: 'End time must be after the start time', path: ['endTime'] };
+
+export const sessionInputSchema = z.object({
+  ...sessionFields,
+  weekday: weekdayField,
+}).refine(endsAfterStart, endsAfterStartError);
+
+export const sessionFormSchema = z.object({
+  ...sessionFields,
+  weekday: requiredText('Please select a weekday')
+    .transform(Number)
+    .pipe(weekdayField),
+}).refine(endsAfterStart, endsAfterStartError);
+
+export const holidayFormSchema = z.object({
+  date: requiredText('Date is required').pipe(calendarDayField),
+});
+
+export const attendanceInputSchema = z.object({
+  sessionId: requiredText('Please select a session'),
+  day: calendarDayField,
+  marks: z.array(z.object({
+    memberId: requiredText('Member is required'),
+    status: z.enum(ATTENDANCE_STATUSES, { error: 'Please mark every member present, absent or excused' }),
+  })).min(1, 'Mark at least one member'),
+});
+
+const staffFields = {
+  firstName: requiredText('First name is required'),
+  lastName: requiredText('Last name is required'),
+  role: z.enum(STAFF_ROLES, { error: 'Please select a role' }),
+  email: emailField,
+  phone: requiredText('Phone number is required'),
+};
+
+const qualificationName = requiredText('Qualification name is required');
+
+export const staffInputSchema = z.object({
+  ...staffFields,
+  qualifications: z.array(z.object({
+    name: qualificationName,
+    expiresAt: qualificationExpiryField.optional(),
+  })),
+});
+
+export const staffFormSchema = z.object({
+  ...staffFields,
+  qualifications: z.array(z.object({
+    name: qualificationName,
+    expiresAt: z
+      .string()
+      .trim()
+      .transform(value => (value === '' ? undefined : new Date(value)))
+      .pipe(qualificationExpiryField.optional()),
+  })),
+});
+
+export const facilityInputSchema = z.object({
+  name: requiredText('Facility name is required'),
+  kind: z.enum(FACILITY_KINDS, { error: 'Please select a kind of facility' }),
+  description: z.string().trim(),
+});
+
+const bookingFields = {
+  facilityId: requiredText('Please select a facility'),
+  sportId: requiredText('Please select a sport'),
+  recurrence: z.enum(['once', 'weekly']),
+  day: calendarDayField,
+  startTime: timeField('Start time'),
+  endTime: timeField('End time'),
+  note: z.string().trim(),
+};
+
+// YYYY-MM-DD strings compare in date order
+const untilNotBeforeDay = (booking: { day: string; until?: string }) => !booking.until || booking.until >= booking.day;
+const untilNotBeforeDayError = { error: 'The last day cannot be before the first day', path: ['until'] };
+
+export const bookingInputSchema = z.object({
+  ...bookingFields,
+  sessionId: z.string().min(1).optional(),
+  until: calendarDayField.optional(),
+})
+  .refine(endsAfterStart, endsAfterStartError)
+  .refine(untilNotBeforeDay, untilNotBeforeDayError);
+
+// 'none' is the "no session" choice of the session picker
+export const bookingFormSchema = z.object({
+  ...bookingFields,
+  day: requiredText('Date is required').pipe(calendarDayField),
+  sessionId: z.string().transform(value => (value === '' || value === 'none' ? undefined : value)),
+  until: z
+    .string()
+    .trim()
+    .transform(value => (value === '' ? undefined : value))
+    .pipe(calendarDayField.optional()),
+})
+  .refine(endsAfterStart, endsAfterStartError)
+  .refine(untilNotBeforeDay, untilNotBeforeDayError);
+
+// Parses service input, surfacing the first issue as a readable Error instead of a ZodError dump
+export function parseInput<Schema extends z.ZodType>(schema: Schema, value: unknown): z.output<Schema> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new Error(result.error.issues[0].message);
+  }
+  return result.data;
+}
+
+export type SportFormValues = z.input<typeof sportFormSchema>;
+export type MemberFormValues = z.input<typeof memberFormSchema>;
+export type HouseholdFormValues = z.input<typeof householdFormSchema>;
+export type SubscriptionFormValues = z.input<typeof subscriptionInputSchema>;
+export type PaymentFormValues = z.input<typeof paymentFormSchema>;
+export type InvoicePaymentFormValues = z.input<typeof invoicePaymentFormSchema>;
+export type SessionFormValues = z.input<typeof sessionFormSchema>;
+export type HolidayFormValues = z.input<typeof holidayFormSchema>;
+export type StaffFormValues = z.input<typeof staffFormSchema>;
+export type FacilityFormValues = z.input<typeof facilityInputSchema>;
+export type BookingFormValues = z.input<typeof bookingFormSchema>;
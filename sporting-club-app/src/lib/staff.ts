@@ -0,0 +1,41 @@
+import type { Qualification, SportingClubDB } from '@/lib/db';
+
+type StaffMember = SportingClubDB['staff']['value'];
+
+type QualificationStatus = 'valid' | 'expiring' | 'expired';
+
+interface ExpiringQualification {
+  staffMember: StaffMember;
+  qualification: Qualification;
+  status: Exclude<QualificationStatus, 'valid'>;
+}
+
+// Certifications expiring within this many days are highlighted so they can be renewed in time
+export const CERTIFICATION_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const STAFF_ROLE_LABELS: Record<StaffMember['role'], string> = {
+  coach: 'Coach',
+  assistant: 'Assistant coach',
+  manager: 'Team manager',
+  volunteer: 'Volunteer',
+};
+
+export function qualificationStatus(qualification: Qualification, asOf = new Date()): QualificationStatus {
+  if (!qualification.expiresAt) return 'valid';
+  if (qualification.expiresAt < asOf) return 'expired';
+  return qualification.expiresAt.getTime() - asOf.getTime() <= CERTIFICATION_WARNING_DAYS * DAY_MS ? 'expiring' : 'valid';
+}
+
+// Expired and soon expiring certifications across all staff, the most urgent first
+export function findExpiringQualifications(staff: StaffMember[], asOf = new Date()): ExpiringQualification[] {
+  return staff
+    .flatMap(staffMember => staffMember.qualifications.flatMap(qualification => {
+      const status = qualificationStatus(qualification, asOf);
+      return status === 'valid' ? [] : [{ staffMember, qualification, status }];
+    }))
+    .sort((a, b) => (a.qualification.expiresAt?.getTime() ?? 0) - (b.qualification.expiresAt?.getTime() ?? 0));
+}
+
+export type { QualificationStatus, ExpiringQualification };
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { ClubData } from '@/lib/db';
+import { computeClubStatistics } from '@/lib/statistics';
+
+type Sport = ClubData['sports'][number];
+type Member = ClubData['members'][number];
+type Subscription = ClubData['subscriptions'][number];
+
+const NOW = new Date(2025, 5, 15);
+const CREATED = new Date(2024, 0, 1);
+
+const sport = (id: string, name: string, category: string, overrides: Partial<Sport> = {}): Sport => ({
+  id, name, description: '', category, createdAt: CREATED, updatedAt: CREATED, ...overrides,
+});
+
+const member = (id: string, dateOfBirth: Date, overrides: Partial<Member> = {}): Member => ({
+  id,
+  firstName: id,
+  lastName: 'Doe',
+  phone: '',
+  dateOfBirth,
+  address: '',
+  membershipDate: CREATED,
+  status: 'active',
+  createdAt: CREATED,
+  updatedAt: CREATED,
+  ...overrides,
+});
+
+const subscription = (memberId: string, sportId: string, status: Subscription['status']): Subscription => ({
+  id: `${memberId}-${sportId}`,
+  memberId,
+  sportId,
+  subscriptionDate: CREATED,
+  status,
+  history: [],
+  createdAt: CREATED,
+  updatedAt: CREATED,
+});
+
+const clubData = (data: Partial<ClubData>): ClubData => ({
+  sports: [], members: [], subscriptions: [], payments: [], invoices: [], sessions: [], attendance: [], staff: [],
+  staffAssignments: [], households: [], facilities: [], bookings: [], ...data,
+});
+
+describe('computeClubStatistics', () => {
+  const data = clubData({
+    sports: [
+      sport('tennis', 'Tennis', 'Racquet Sports'),
+      sport('football', 'Football', 'Team Sports'),
+      sport('golf', 'Golf', 'Outdoor Sports', { archivedAt: CREATED }),
+    ],
+    members: [
+      member('ann', new Date(2015, 0, 1), { membershipDate: new Date(2025, 5, 1) }),
+      member('bob', new Date(1990, 5, 15), { membershipDate: new Date(2024, 6, 1) }),
+      member('cid', new Date(1965, 6, 1), { membershipDate: new Date(2024, 5, 30), status: 'inactive' }),
+      member('dee', new Date(2000, 0, 1), { membershipDate: new Date(2025, 5, 2), archivedAt: CREATED }),
+    ],
+    subscriptions: [
+      subscription('ann', 'tennis', 'active'),
+      subscription('bob', 'tennis', 'active'),
+      subscription('cid', 'football', 'waitlisted'),
+      subscription('ann', 'football', 'cancelled'),
+      // With an archived member or sport
+      subscription('dee', 'tennis', 'cancelled'),
+      subscription('dee', 'football', 'waitlisted'),
+      subscription('bob', 'golf', 'cancelled'),
+      subscription('cid', 'golf', 'active'),
+    ],
+  });
+
+  it('counts current sports, members and subscriptions only', () => {
+    const statistics = computeClubStatistics(data, NOW);
+
+    expect(statistics.totals).toEqual({
+      sports: 2,
+      members: 3,
+      activeMembers: 2,
+      inactiveMembers: 1,
+      activeSubscriptions: 2,
+      waitlisted: 1,
+      cancelledSubscriptions: 1,
+    });
+    expect(statistics.subscriptionsBySport).toEqual([
+      { label: 'Tennis', value: 2 },
+      { label: 'Football', value: 0 },
+    ]);
+    expect(statistics.subscriptionsByCategory).toEqual([
+      { label: 'Racquet Sports', value: 2 },
+      { label: 'Team Sports', value: 0 },
+    ]);
+  });
+
+  it('computes the cancellation rate over subscriptions of current sports and members', () => {
+    expect(computeClubStatistics(data, NOW).cancellationRate).toBe(1 / 4);
+    expect(computeClubStatistics(clubData({}), NOW).cancellationRate).toBe(0);
+  });
+
+  it('counts new members over the last twelve months, oldest first', () => {
+    const { newMembersByMonth } = computeClubStatistics(data, NOW);
+
+    expect(newMembersByMonth).toHaveLength(12);
+    expect(newMembersByMonth[0]).toEqual({ label: '2024-07', value: 1 });
+    expect(newMembersByMonth[11]).toEqual({ label: '2025-06', value: 1 });
+    expect(newMembersByMonth.reduce((sum, month) => sum + month.value, 0)).toBe(2);
+  });
+
+  it('puts each member in the age bucket whose range holds their age', () => {
+    // Aged 11, 12, 17, 18, 29, 30, 44, 45, 59 and 60 on NOW, every other one turning that age on the day
+    const birthdays = [
+      new Date(2013, 11, 31), new Date(2013, 0, 1), new Date(2007, 11, 31), new Date(2007, 0, 1),
+      new Date(1995, 11, 31), new Date(1995, 5, 15), new Date(1980, 11, 31), new Date(1980, 5, 15),
+      new Date(1965, 11, 31), new Date(1965, 5, 15),
+    ];
+    const members = birthdays.map((dateOfBirth, index) => member(`m${index}`, dateOfBirth));
+
+    expect(computeClubStatistics(clubData({ members }), NOW).ageDistribution).toEqual([
+      { label: 'Under 12', value: 1 },
+      { label: '12–17', value: 2 },
+      { label: '18–29', value: 2 },
+      { label: '30–44', value: 2 },
+      { label: '45–59', value: 2 },
+      { label: '60+', value: 1 },
+    ]);
+  });
+});
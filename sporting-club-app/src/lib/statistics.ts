@@ -0,0 +1,103 @@
+import { ClubData } from '@/lib/db';
+import { calculateAge } from '@/lib/utils';
+
+interface ChartDatum {
+  label: string;
+  value: number;
+}
+
+interface ClubStatistics {
+  totals: {
+    sports: number;
+    members: number;
+    activeMembers: number;
+    inactiveMembers: number;
+    activeSubscriptions: number;
+    waitlisted: number;
+    cancelledSubscriptions: number;
+  };
+  subscriptionsBySport: ChartDatum[];
+  subscriptionsByCategory: ChartDatum[];
+  newMembersByMonth: ChartDatum[];
+  // Share of the subscriptions ever taken out between current sports and members that were since cancelled, 0 to 1
+  cancellationRate: number;
+  ageDistribution: ChartDatum[];
+}
+
+const AGE_BUCKETS = [
+  { label: 'Under 12', max: 11 },
+  { label: '12–17', max: 17 },
+  { label: '18–29', max: 29 },
+  { label: '30–44', max: 44 },
+  { label: '45–59', max: 59 },
+  { label: '60+', max: Infinity },
+];
+
+const MONTHS_SHOWN = 12;
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  }
+  return counts;
+}
+
+const byValueDescending = (a: ChartDatum, b: ChartDatum) => b.value - a.value || a.label.localeCompare(b.label);
+
+// Aggregates a snapshot of the three stores. Archived sports and members are left out everywhere.
+export function computeClubStatistics(data: ClubData, now = new Date()): ClubStatistics {
+  const sports = data.sports.filter(sport => !sport.archivedAt);
+  const members = data.members.filter(member => !member.archivedAt);
+  const sportById = new Map(sports.map(sport => [sport.id, sport]));
+  const memberIds = new Set(members.map(member => member.id));
+  const subscriptions = data.subscriptions.filter(sub => sportById.has(sub.sportId) && memberIds.has(sub.memberId));
+  const activeSubscriptions = subscriptions.filter(sub => sub.status === 'active');
+
+  // Every sport gets a bar, including the ones nobody plays yet
+  const perSport = countBy(activeSubscriptions, sub => sub.sportId);
+  const subscriptionsBySport = sports
+    .map(sport => ({ label: sport.name, value: perSport.get(sport.id) ?? 0 }))
+    .sort(byValueDescending);
+
+  const perCategory = countBy(activeSubscriptions, sub => sportById.get(sub.sportId)?.category ?? '');
+  const subscriptionsByCategory = [...new Set(sports.map(sport => sport.category))]
+    .map(category => ({ label: category, value: perCategory.get(category) ?? 0 }))
+    .sort(byValueDescending);
+
+  // The last twelve calendar months up to and including the current one, oldest first
+  const perMonth = countBy(members, member => monthKey(member.membershipDate));
+  const newMembersByMonth = Array.from({ length: MONTHS_SHOWN }, (_, index) => {
+    const key = monthKey(new Date(now.getFullYear(), now.getMonth() - (MONTHS_SHOWN - 1 - index), 1));
+    return { label: key, value: perMonth.get(key) ?? 0 };
+  });
+
+  const ages = members.map(member => calculateAge(member.dateOfBirth, now));
+  const ageDistribution = AGE_BUCKETS.map((bucket, index) => ({
+    label: bucket.label,
+    value: ages.filter(age => age <= bucket.max && (index === 0 || age > AGE_BUCKETS[index - 1].max)).length,
+  }));
+
+  const cancelled = subscriptions.filter(sub => sub.status === 'cancelled').length;
+
+  return {
+    totals: {
+      sports: sports.length,
+      members: members.length,
+      activeMembers: members.filter(member => member.status === 'active').length,
+      inactiveMembers: members.filter(member => member.status === 'inactive').length,
+      activeSubscriptions: activeSubscriptions.length,
+      waitlisted: subscriptions.filter(sub => sub.status === 'waitlisted').length,
+      cancelledSubscriptions: cancelled,
+    },
+    subscriptionsBySport,
+    subscriptionsByCategory,
+    newMembersByMonth,
+    cancellationRate: subscriptions.length === 0 ? 0 : cancelled / subscriptions.length,
+    ageDistribution,
+  };
+}
+
+export type { ChartDatum, ClubStatistics };
@@ -0,0 +1,43 @@
+import type { SportingClubDB, UndoCommand } from '@/lib/db';
+import type { ClubCache } from '@/lib/clubStore';
+
+type Sport = SportingClubDB['sports']['value'];
+type Member = SportingClubDB['members']['value'];
+type Subscription = SportingClubDB['subscriptions']['value'];
+
+const ACTION_LABELS: Record<UndoCommand['action'], string> = {
+  archive: 'Archived',
+  purge: 'Purged',
+  cancel: 'Cancelled',
+};
+
+// The archived, purged or cancelled record as it was before the command
+function subjectOf(command: UndoCommand) {
+  return command.entries.find(entry => entry.store === command.store && entry.id === command.recordId)?.before;
+}
+
+// One line for the toast and the history, e.g. 'Archived sport Tennis' or 'Cancelled Tennis for Jane Doe'.
+// Names of sports and members that still exist come from the cache.
+export function describeUndoCommand(command: UndoCommand, cache: ClubCache): string {
+  const action = ACTION_LABELS[command.action];
+
+  if (command.store === 'sports') {
+    const sport = subjectOf(command) as Sport | undefined;
+    return `${action} sport ${sport?.name ?? ''}`.trim();
+  }
+  if (command.store === 'members') {
+    const member = subjectOf(command) as Member | undefined;
+    return `${action} member ${member ? `${member.firstName} ${member.lastName}` : ''}`.trim();
+  }
+
+  const subscription = subjectOf(command) as Subscription | undefined;
+  const member = subscription && cache.members.get(subscription.memberId);
+  const sport = subscription && cache.sports.get(subscription.sportId);
+  const verb = subscription?.status === 'waitlisted' ? 'Removed from the waitlist of' : action;
+  return `${verb} ${sport?.name ?? 'a sport'}${member ? ` for ${member.firstName} ${member.lastName}` : ''}`;
+}
+
+// Records the command changed besides the archived, purged or cancelled one: cascades and waitlist promotions
+export function relatedChangeCount(command: UndoCommand): number {
+  return command.entries.filter(entry => entry.store !== command.store || entry.id !== command.recordId).length;
+}
@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Age in whole years on the given day
+export function calculateAge(dateOfBirth: Date, on: Date = new Date()) {
+  let age = on.getFullYear() - dateOfBirth.getFullYear()
+  const hadBirthday =
+    on.getMonth() > dateOfBirth.getMonth() ||
+    (on.getMonth() === dateOfBirth.getMonth() && on.getDate() >= dateOfBirth.getDate())
+  if (!hadBirthday) age--
+  return age
+}
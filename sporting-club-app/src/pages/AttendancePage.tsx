@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useCheckIn, useMembers, useSessions, useSports } from '@/hooks/useSportingClub';
+import { ATTENDANCE_STATUSES } from '@/lib/schemas';
+import { ATTENDANCE_STATUS_LABELS, AttendanceStatus, MISSED_SESSIONS_ALERT } from '@/lib/attendance';
+import { toCalendarDay, weekdayOf, WEEKDAY_NAMES } from '@/lib/schedule';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ClipboardCheck, Users } from 'lucide-react';
+
+const AttendancePage: React.FC = () => {
+  // The occurrence being checked in lives in the URL so the schedule can link straight to it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const today = toCalendarDay(new Date());
+  const day = searchParams.get('day') ?? today;
+  const sessionId = searchParams.get('session') ?? undefined;
+
+  const { session, sport, records, missedStreaks, loading, error, isInitialized, saveAttendance } = useCheckIn(sessionId, day);
+  const { sessions } = useSessions();
+  const { sports } = useSports();
+  const { members } = useMembers();
+  // Marks changed since the last save, layered over the recorded ones
+  const [edits, setEdits] = useState<Record<string, AttendanceStatus>>({});
+  const [saved, setSaved] = useState(false);
+
+  const selectOccurrence = (nextSessionId: string | undefined, nextDay: string) => {
+    setSearchParams(nextSessionId ? { session: nextSessionId, day: nextDay } : { day: nextDay });
+    setEdits({});
+    setSaved(false);
+  };
+
+  const handleDayChange = (nextDay: string) => {
+    if (!nextDay) return;
+    // A session only takes place on its own weekday
+    const keepSession = session && session.weekday === weekdayOf(nextDay) ? session.id : undefined;
+    selectOccurrence(keepSession, nextDay);
+  };
+
+  const sportsById = new Map(sports.map(s => [s.id, s]));
+  const membersById = new Map(members.map(member => [member.id, member]));
+
+  const daySessions = sessions
+    .filter(s => s.weekday === weekdayOf(day) && sportsById.has(s.sportId))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  const roster = [...(sport?.members ?? [])].sort((a, b) =>
+    `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`)
+  );
+  const marks: Record<string, AttendanceStatus> = {
+    ...Object.fromEntries(records.map(record => [record.memberId, record.status])),
+    ...edits,
+  };
+  const hasChanges = Object.keys(edits).length > 0;
+
+  const isCancelled = session?.exceptions.includes(day) ?? false;
+  const isFuture = day > today;
+
+  const markMember = (memberId: string, status: AttendanceStatus) => {
+    setEdits(current => ({ ...current, [memberId]: status }));
+    setSaved(false);
+  };
+
+  const markAllPresent = () => {
+    setEdits(Object.fromEntries(roster.map(member => [member.id, 'present' as const])));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    const result = await saveAttendance(
+      roster.flatMap(member => (marks[member.id] ? [{ memberId: member.id, status: marks[member.id] }] : []))
+    );
+    if (result) {
+      setEdits({});
+      setSaved(true);
+    }
+  };
+
+  const followUps = [...missedStreaks]
+    .flatMap(([memberId, missed]) => {
+      const member = membersById.get(memberId);
+      return member ? [{ member, missed }] : [];
+    })
+    .sort((a, b) => b.missed - a.missed);
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Attendance</h1>
+        <p className="text-muted-foreground">Check members in for a training session</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Session</CardTitle>
+            <CardDescription>Pick the day, then one of the sessions scheduled on it</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="attendance-day">Day</Label>
+              <Input
+                id="attendance-day"
+                type="date"
+                value={day}
+                onChange={(e) => handleDayChange(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Session</Label>
+              <Select value={session?.id ?? ''} onValueChange={(value) => selectOccurrence(value, day)}>
+                <SelectTrigger aria-label="Session">
+                  <SelectValue placeholder={daySessions.length === 0 ? `No sessions on ${WEEKDAY_NAMES[weekdayOf(day)]}` : 'Select a session'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {daySessions.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.startTime}–{s.endTime} {sportsById.get(s.sportId)?.name} ({s.location})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Follow Up
+            </CardTitle>
+            <CardDescription>Missed {MISSED_SESSIONS_ALERT} or more sessions in a row</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {followUps.length === 0 ? (
+              <p className="text-muted-foreground text-sm">Nobody to follow up.</p>
+            ) : (
+              <ul className="space-y-2">
+                {followUps.map(({ member, missed }) => (
+                  <li key={member.id} className="flex justify-between items-center text-sm">
+                    <Link to={`/members/${member.id}`} className="font-medium hover:underline">
+                      {member.firstName} {member.lastName}
+                    </Link>
+                    <Badge variant="destructive">{missed} missed</Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Check-in */}
+      {sessionId && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  {sport ? `${sport.name} Check-in` : 'Check-in'}
+                </CardTitle>
+                {session && (
+                  <CardDescription>
+                    {WEEKDAY_NAMES[session.weekday]} {new Date(`${day}T12:00:00`).toLocaleDateString()},{' '}
+                    {session.startTime}–{session.endTime} at {session.location} with {session.coach}
+                  </CardDescription>
+                )}
+              </div>
+              {roster.length > 0 && !isCancelled && !isFuture && (
+                <Button variant="outline" size="sm" onClick={markAllPresent}>
+                  Mark All Present
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading && !session ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                <span className="ml-2 text-muted-foreground">Loading session...</span>
+              </div>
+            ) : !session ? (
+              <p className="text-muted-foreground text-sm">Session not found.</p>
+            ) : session.weekday !== weekdayOf(day) ? (
+              <p className="text-muted-foreground text-sm">This session does not take place on this day.</p>
+            ) : isCancelled ? (
+              <p className="text-muted-foreground text-sm">This session is cancelled on this day.</p>
+            ) : isFuture ? (
+              <p className="text-muted-foreground text-sm">Attendance can be taken from the day of the session.</p>
+            ) : roster.length === 0 ? (
+              <div className="text-center py-8">
+                <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No active members in this sport.</p>
+              </div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead className="text-right">Attendance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {roster.map((member) => (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/members/${member.id}`} className="hover:underline">
+                            {member.lastName}, {member.firstName}
+                          </Link>
+                          {missedStreaks.has(member.id) && (
+                            <Badge variant="destructive" className="ml-2">
+                              Missed {missedStreaks.get(member.id)} in a row
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1" role="group" aria-label={`Attendance of ${member.firstName} ${member.lastName}`}>
+                            {ATTENDANCE_STATUSES.map((status) => (
+                              <Button
+                                key={status}
+                                size="sm"
+                                variant={marks[member.id] === status ? (status === 'absent' ? 'destructive' : 'default') : 'outline'}
+                                aria-pressed={marks[member.id] === status}
+                                onClick={() => markMember(member.id, status)}
+                              >
+                                {ATTENDANCE_STATUS_LABELS[status]}
+                              </Button>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="flex items-center gap-4">
+                  <Button onClick={handleSave} disabled={!hasChanges}>
+                    Save Attendance
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    {Object.keys(marks).filter(id => roster.some(member => member.id === id)).length} of {roster.length} marked
+                    {saved && !hasChanges && ' · Saved'}
+                  </span>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AttendancePage;
@@ -0,0 +1,207 @@
+import React, { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuditLog } from '@/hooks/useSportingClub';
+import { AuditEntry, CLUB_DATA_STORES } from '@/lib/db';
+import {
+  AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, describeAuditRecord, formatOperation, listAuditChanges,
+} from '@/lib/audit';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollText, Search } from 'lucide-react';
+
+// Radix Select items cannot have an empty value
+const ALL_ENTITIES = 'all';
+
+const ACTION_VARIANTS = {
+  create: 'default',
+  update: 'outline',
+  delete: 'destructive',
+} as const;
+
+const AuditLogPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const entity = searchParams.get('entity') ?? ALL_ENTITIES;
+  const from = searchParams.get('from') ?? '';
+  const to = searchParams.get('to') ?? '';
+  const search = searchParams.get('search') ?? '';
+  const { entries, hasMore, loadOlder, cache, error, isInitialized } = useAuditLog({
+    fromDay: from,
+    toDay: to,
+    store: CLUB_DATA_STORES.find(store => store === entity),
+    search,
+  });
+
+  const updateFilter = (name: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value && value !== ALL_ENTITIES) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const rows = useMemo(
+    () => entries.map(entry => ({ entry, record: describeAuditRecord(entry, cache) })),
+    [entries, cache]
+  );
+
+  const isFiltered = entity !== ALL_ENTITIES || from !== '' || to !== '' || search !== '';
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderChanges = (entry: AuditEntry) => (
+    <ul className="space-y-0.5 text-sm">
+      {listAuditChanges(entry).map(change => (
+        <li key={change.field}>
+          <span className="text-muted-foreground">{change.field}:</span>{' '}
+          {entry.action === 'update' ? (
+            <>
+              <span className="line-through text-muted-foreground">{change.from || '—'}</span> → {change.to || '—'}
+            </>
+          ) : (
+            (entry.action === 'create' ? change.to : change.from) || '—'
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+        <p className="text-muted-foreground">Every change to the club's data, who made it and what it changed</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            {isFiltered ? `Matching Changes (${rows.length})` : `All Changes (${rows.length})`}
+          </CardTitle>
+          <CardDescription>
+            Entries are recorded with each change and can never be edited or removed.
+            {hasMore && ` Showing the latest ${entries.length}; load older ones at the bottom.`}
+          </CardDescription>
+          <div className="flex flex-col md:flex-row gap-2 pt-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => updateFilter('search', e.target.value)}
+                placeholder="Search by record or user"
+                className="pl-8"
+                aria-label="Search the audit log"
+              />
+            </div>
+            <Select value={entity} onValueChange={(value) => updateFilter('entity', value)}>
+              <SelectTrigger className="md:w-48" aria-label="Filter by entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ENTITIES}>All entities</SelectItem>
+                {CLUB_DATA_STORES.map(store => (
+                  <SelectItem key={store} value={store}>{AUDIT_ENTITY_LABELS[store]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="md:w-40"
+              aria-label="From"
+            />
+            <Input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="md:w-40"
+              aria-label="To"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rows.length === 0 ? (
+            <div className="text-center py-8">
+              <ScrollText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                {isFiltered ? 'No changes match your filters.' : 'No changes recorded yet.'}
+              </p>
+              {isFiltered && (
+                <Button variant="link" onClick={() => setSearchParams({}, { replace: true })}>
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Operation</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ entry, record }) => (
+                  <TableRow key={entry.id} className="align-top">
+                    <TableCell className="whitespace-nowrap">{entry.at.toLocaleString()}</TableCell>
+                    <TableCell>{entry.actor || <span className="text-muted-foreground">Unknown</span>}</TableCell>
+                    <TableCell>{formatOperation(entry.operation)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                        <span className="text-muted-foreground">{AUDIT_ENTITY_LABELS[entry.store]}</span>
+                      </div>
+                      <p className="font-medium">{record}</p>
+                    </TableCell>
+                    <TableCell>{renderChanges(entry)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {hasMore && (
+            <div className="text-center">
+              <Button variant="outline" onClick={loadOlder}>Load older changes</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLogPage;
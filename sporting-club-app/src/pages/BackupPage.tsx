@@ -0,0 +1,217 @@
+import React, { useState, useMemo } from 'react';
+import { useBackup } from '@/hooks/useSportingClub';
+import { ClubData, RestoreMode } from '@/lib/db';
+import { serializeBackup, parseBackup, findRestoreConflicts } from '@/lib/backup';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Download, Upload, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface LoadedBackup {
+  fileName: string;
+  exportedAt: Date;
+  data: ClubData;
+  current: ClubData;
+}
+
+const BackupPage: React.FC = () => {
+  const { exportData, restoreData, restoring, error, isInitialized } = useBackup();
+  const [backup, setBackup] = useState<LoadedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [importError, setImportError] = useState('');
+  const [restored, setRestored] = useState(false);
+
+  const conflicts = useMemo(
+    () => (backup ? findRestoreConflicts(backup.data, backup.current, mode) : []),
+    [backup, mode]
+  );
+
+  const handleExport = async () => {
+    const data = await exportData();
+    if (!data) return;
+
+    const blob = new Blob([serializeBackup(data)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sporting-club-backup-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setBackup(null);
+    setImportError('');
+    setRestored(false);
+    if (!file) return;
+
+    try {
+      const { data, exportedAt } = parseBackup(await file.text());
+      const current = await exportData();
+      if (!current) return;
+      setBackup({ fileName: file.name, exportedAt, data, current });
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to read backup file');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    const result = await restoreData(backup.data, mode);
+    if (result) {
+      setBackup(null);
+      setRestored(true);
+    }
+  };
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Backup</h1>
+        <p className="text-muted-foreground">Export your club data or restore it from a backup file</p>
+      </div>
+
+      {/* Export */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export
+          </CardTitle>
+          <CardDescription>Download all sports, members, subscriptions, payments, invoices, training sessions, attendance, staff, households and facility bookings as a JSON file</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={handleExport} className="gap-2">
+            <Download className="h-4 w-4" />
+            Download Backup
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Restore
+          </CardTitle>
+          <CardDescription>Load a backup file, review it, then restore it into this browser</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backupFile">Backup File</Label>
+              <Input id="backupFile" type="file" accept=".json,application/json" onChange={handleFileChange} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="restoreMode">Mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <SelectTrigger id="restoreMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge with existing data</SelectItem>
+                  <SelectItem value="replace">Replace all existing data</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {importError && <p className="text-sm text-destructive">{importError}</p>}
+
+          {restored && (
+            <p className="text-sm text-green-700 flex items-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              Backup restored successfully.
+            </p>
+          )}
+
+          {backup && (
+            <div className="space-y-4">
+              <div className="rounded-md border p-4 text-sm space-y-1">
+                <p className="font-medium">{backup.fileName}</p>
+                <p className="text-muted-foreground">Exported: {backup.exportedAt.toLocaleString()}</p>
+                <p className="text-muted-foreground">
+                  {backup.data.sports.length} sports, {backup.data.members.length} members, {backup.data.subscriptions.length} subscriptions, {backup.data.payments.length} payments, {backup.data.invoices.length} invoices, {backup.data.sessions.length} training sessions, {backup.data.attendance.length} attendance records, {backup.data.staff.length} staff, {backup.data.households.length} households, {backup.data.facilities.length} facilities, {backup.data.bookings.length} bookings
+                </p>
+              </div>
+
+              {conflicts.length > 0 ? (
+                <div className="rounded-md border border-destructive p-4 space-y-2">
+                  <p className="text-sm font-medium text-destructive flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    {conflicts.length} conflict{conflicts.length !== 1 ? 's' : ''} must be resolved before restoring
+                  </p>
+                  <ul className="text-sm text-muted-foreground space-y-1 max-h-48 overflow-y-auto">
+                    {conflicts.map((conflict, index) => (
+                      <li key={index}>
+                        <span className="font-medium text-foreground">{conflict.store}</span> {conflict.id}: {conflict.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={restoring} className="gap-2">
+                      <Upload className="h-4 w-4" />
+                      Restore Backup
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {mode === 'replace'
+                          ? 'All current sports, members, subscriptions, payments, invoices, training sessions, attendance, staff, households and facility bookings will be deleted and replaced by the backup. This action cannot be undone.'
+                          : 'Records from the backup will be added, overwriting current records with the same id.'}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleRestore}>
+                        Restore
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BackupPage;
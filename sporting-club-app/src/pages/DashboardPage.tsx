@@ -0,0 +1,170 @@
+import React from 'react';
+import { useClubStatistics } from '@/hooks/useSportingClub';
+import BarChart from '@/components/charts/BarChart';
+import ColumnChart from '@/components/charts/ColumnChart';
+import DonutChart from '@/components/charts/DonutChart';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Clock, Trophy, UserCheck, Users } from 'lucide-react';
+
+// "2026-03" -> "Mar"; the year is in the card description
+const formatMonth = (key: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'short' });
+};
+
+const DashboardPage: React.FC = () => {
+  const { statistics, loading, error, isInitialized } = useClubStatistics();
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading || !statistics) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        <span className="ml-2 text-muted-foreground">Loading statistics...</span>
+      </div>
+    );
+  }
+
+  const { totals } = statistics;
+  const summary = [
+    { label: 'Members', value: totals.members, icon: Users },
+    { label: 'Sports', value: totals.sports, icon: Trophy },
+    { label: 'Active subscriptions', value: totals.activeSubscriptions, icon: UserCheck },
+    { label: 'On waitlists', value: totals.waitlisted, icon: Clock },
+  ];
+  const firstMonth = statistics.newMembersByMonth[0]?.label;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+        <p className="text-muted-foreground">Club statistics at a glance</p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {summary.map(({ label, value, icon: Icon }) => (
+          <Card key={label}>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Icon className="h-4 w-4" />
+                {label}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-3xl font-bold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Member Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DonutChart
+              title="Active and inactive members"
+              centerLabel={String(totals.members)}
+              data={[
+                { label: 'Active', value: totals.activeMembers },
+                { label: 'Inactive', value: totals.inactiveMembers },
+              ]}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cancellation Rate</CardTitle>
+            <CardDescription>Share of all subscriptions that have been cancelled</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DonutChart
+              title="Cancellation rate"
+              centerLabel={`${Math.round(statistics.cancellationRate * 100)}%`}
+              data={[
+                { label: 'Active', value: totals.activeSubscriptions },
+                { label: 'Waitlisted', value: totals.waitlisted },
+                { label: 'Cancelled', value: totals.cancelledSubscriptions },
+              ]}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscriptions per Sport</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {statistics.subscriptionsBySport.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No sports yet.</p>
+            ) : (
+              <BarChart title="Active subscriptions per sport" data={statistics.subscriptionsBySport} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscriptions per Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {statistics.subscriptionsByCategory.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No sports yet.</p>
+            ) : (
+              <BarChart title="Active subscriptions per category" data={statistics.subscriptionsByCategory} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Members</CardTitle>
+            <CardDescription>Per month since {firstMonth && formatMonth(firstMonth)} {firstMonth?.slice(0, 4)}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ColumnChart
+              title="New members per month"
+              data={statistics.newMembersByMonth.map(datum => ({ ...datum, label: formatMonth(datum.label) }))}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Age Distribution</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ColumnChart title="Members by age" data={statistics.ageDistribution} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default DashboardPage;
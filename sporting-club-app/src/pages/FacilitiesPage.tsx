@@ -0,0 +1,751 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useFacilities, useSessions, useSports } from '@/hooks/useSportingClub';
+import { SportingClubDB } from '@/lib/db';
+import {
+  bookingFormSchema, BookingFormValues, FACILITY_KINDS, facilityInputSchema, FacilityFormValues,
+} from '@/lib/schemas';
+import { bookingsOn, describeBooking, FACILITY_KIND_LABELS, findBookingConflicts, minutesOf } from '@/lib/facilities';
+import { addDays, startOfWeek, toCalendarDay, weekdayOf, WEEKDAY_NAMES } from '@/lib/schedule';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Building2, CalendarPlus, ChevronLeft, ChevronRight, Pencil, Plus, Trash2 } from 'lucide-react';
+
+type Facility = SportingClubDB['facilities']['value'];
+
+// Radix Select items cannot have an empty value
+const NO_SESSION = 'none';
+
+// Hours shown on the day timeline
+const DAY_START = '06:00';
+const DAY_END = '23:00';
+const TIMELINE_HOURS = Array.from(
+  { length: (minutesOf(DAY_END) - minutesOf(DAY_START)) / 60 },
+  (_, index) => `${String(minutesOf(DAY_START) / 60 + index).padStart(2, '0')}:00`
+);
+
+const emptyFacilityForm: FacilityFormValues = {
+  name: '',
+  kind: 'pitch',
+  description: '',
+};
+
+const emptyBookingForm: BookingFormValues = {
+  facilityId: '',
+  sportId: '',
+  sessionId: NO_SESSION,
+  recurrence: 'once',
+  day: '',
+  until: '',
+  startTime: '',
+  endTime: '',
+  note: '',
+};
+
+// Horizontal position of a time on the day timeline, as a percentage clamped to the visible hours
+function timelineOffset(time: string) {
+  const span = minutesOf(DAY_END) - minutesOf(DAY_START);
+  const offset = (minutesOf(time) - minutesOf(DAY_START)) / span;
+  return Math.min(Math.max(offset, 0), 1) * 100;
+}
+
+const FacilitiesPage: React.FC = () => {
+  const {
+    facilities, bookings, loading, error, isInitialized,
+    addFacility, updateFacility, deleteFacility, addBooking, deleteBooking,
+  } = useFacilities();
+  const { sessions } = useSessions();
+  const { sports } = useSports();
+
+  const [view, setView] = useState<'day' | 'week'>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const [showFacilityForm, setShowFacilityForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showBookingForm, setShowBookingForm] = useState(false);
+  const facilityForm = useForm<FacilityFormValues, unknown, z.output<typeof facilityInputSchema>>({
+    resolver: zodResolver(facilityInputSchema),
+    defaultValues: emptyFacilityForm,
+  });
+  const bookingForm = useForm<BookingFormValues, unknown, z.output<typeof bookingFormSchema>>({
+    resolver: zodResolver(bookingFormSchema),
+    defaultValues: emptyBookingForm,
+  });
+
+  const sportsById = new Map(sports.map(sport => [sport.id, sport]));
+  const facilitiesById = new Map(facilities.map(facility => [facility.id, facility]));
+  const sessionsById = new Map(sessions.map(session => [session.id, session]));
+
+  const handleFacilitySubmit = async (facilityData: z.output<typeof facilityInputSchema>) => {
+    const result = editingId
+      ? await updateFacility(editingId, facilityData)
+      : await addFacility(facilityData);
+    if (result) {
+      resetFacilityForm();
+    }
+  };
+
+  const handleEdit = (facility: Facility) => {
+    facilityForm.reset({
+      name: facility.name,
+      kind: facility.kind,
+      description: facility.description,
+    });
+    setEditingId(facility.id);
+    setShowBookingForm(false);
+    setShowFacilityForm(true);
+  };
+
+  const resetFacilityForm = () => {
+    facilityForm.reset(emptyFacilityForm);
+    setEditingId(null);
+    setShowFacilityForm(false);
+  };
+
+  const handleBookingSubmit = async (bookingData: z.output<typeof bookingFormSchema>) => {
+    const booking = {
+      ...bookingData,
+      until: bookingData.recurrence === 'weekly' ? bookingData.until : undefined,
+    };
+
+    // Checked here too so mistakes show next to the fields instead of failing the whole page
+    const session = booking.sessionId ? sessionsById.get(booking.sessionId) : undefined;
+    if (session && booking.recurrence === 'weekly' && weekdayOf(booking.day) !== session.weekday) {
+      bookingForm.setError('day', { message: `The session takes place on ${WEEKDAY_NAMES[session.weekday]}s` });
+      return;
+    }
+
+    const [conflict] = findBookingConflicts(booking, bookings);
+    if (conflict) {
+      bookingForm.setError('startTime', { message: `Facility is already booked ${describeBooking(conflict)}` });
+      return;
+    }
+
+    const result = await addBooking(booking);
+    if (result) {
+      resetBookingForm();
+    }
+  };
+
+  // Picking a session books the facility for its sport and times
+  const handleSessionChange = (sessionId: string) => {
+    bookingForm.setValue('sessionId', sessionId);
+    const session = sessionsById.get(sessionId);
+    if (!session) return;
+
+    bookingForm.setValue('sportId', session.sportId);
+    bookingForm.setValue('startTime', session.startTime);
+    bookingForm.setValue('endTime', session.endTime);
+    bookingForm.setValue('recurrence', 'weekly');
+  };
+
+  const resetBookingForm = () => {
+    bookingForm.reset(emptyBookingForm);
+    setShowBookingForm(false);
+  };
+
+  const toggleBookingForm = () => {
+    if (showBookingForm) {
+      resetBookingForm();
+    } else {
+      resetFacilityForm();
+      setShowBookingForm(true);
+    }
+  };
+
+  const toggleFacilityForm = () => {
+    if (showFacilityForm) {
+      resetFacilityForm();
+    } else {
+      resetBookingForm();
+      setShowFacilityForm(true);
+    }
+  };
+
+  const recurrence = bookingForm.watch('recurrence');
+  const bookingSessions = sessions
+    .filter(session => sportsById.has(session.sportId))
+    .sort((a, b) => a.weekday - b.weekday || a.startTime.localeCompare(b.startTime));
+
+  const today = toCalendarDay(new Date());
+  const anchorDay = toCalendarDay(anchor);
+  const weekStart = startOfWeek(anchor);
+  const weekDays = Array.from({ length: 7 }, (_, index) => toCalendarDay(addDays(weekStart, index)));
+  const formatDay = (day: string) => new Date(`${day}T12:00:00`).toLocaleDateString();
+  const step = view === 'day' ? 1 : 7;
+
+  const facilityBookings = (facilityId: string) => bookings.filter(booking => booking.facilityId === facilityId);
+  const bookingLabel = (sportId: string) => sportsById.get(sportId)?.name ?? 'Archived sport';
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Facilities</h1>
+          <p className="text-muted-foreground">Pitches, courts and rooms, and who is using them</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={toggleFacilityForm} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {showFacilityForm ? 'Cancel' : 'Add Facility'}
+          </Button>
+          <Button onClick={toggleBookingForm} className="gap-2" disabled={facilities.length === 0 && !showBookingForm}>
+            <CalendarPlus className="h-4 w-4" />
+            {showBookingForm ? 'Cancel' : 'New Booking'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Add / Edit Facility Form */}
+      {showFacilityForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Facility' : 'Add New Facility'}</CardTitle>
+            <CardDescription>
+              {editingId ? 'Update the facility details' : 'Add a pitch, court or room that can be booked'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...facilityForm}>
+              <form onSubmit={facilityForm.handleSubmit(handleFacilitySubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={facilityForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Court 1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={facilityForm.control}
+                    name="kind"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Kind *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {FACILITY_KINDS.map((kind) => (
+                              <SelectItem key={kind} value={kind}>{FACILITY_KIND_LABELS[kind]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={facilityForm.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Indoor, sprung floor" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={facilityForm.formState.isSubmitting}>
+                    {editingId ? 'Save Changes' : 'Add Facility'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetFacilityForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* New Booking Form */}
+      {showBookingForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Booking</CardTitle>
+            <CardDescription>Book a facility once, or every week for a sport or one of its sessions</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...bookingForm}>
+              <form onSubmit={bookingForm.handleSubmit(handleBookingSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={bookingForm.control}
+                    name="facilityId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Facility *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a facility" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {facilities.map((facility) => (
+                              <SelectItem key={facility.id} value={facility.id}>{facility.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={bookingForm.control}
+                    name="sessionId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Training Session</FormLabel>
+                        <Select value={field.value} onValueChange={handleSessionChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_SESSION}>No session</SelectItem>
+                            {bookingSessions.map((session) => (
+                              <SelectItem key={session.id} value={session.id}>
+                                {sportsById.get(session.sportId)?.name}, {WEEKDAY_NAMES[session.weekday]} {session.startTime}–{session.endTime}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={bookingForm.control}
+                    name="sportId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sport *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a sport" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {sports.map((sport) => (
+                              <SelectItem key={sport.id} value={sport.id}>{sport.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={bookingForm.control}
+                    name="recurrence"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeats *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="once">Once</SelectItem>
+                            <SelectItem value="weekly">Every week</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={bookingForm.control}
+                    name="day"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{recurrence === 'weekly' ? 'First Day *' : 'Day *'}</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {recurrence === 'weekly' && (
+                    <FormField
+                      control={bookingForm.control}
+                      name="until"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Last Day</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={bookingForm.control}
+                    name="startTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Time *</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={bookingForm.control}
+                    name="endTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Time *</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={bookingForm.control}
+                    name="note"
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Note</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Half the court only" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={bookingForm.formState.isSubmitting}>
+                    Book Facility
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetBookingForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Occupancy Grid */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <div>
+              <CardTitle>Occupancy</CardTitle>
+              <CardDescription>
+                {view === 'day'
+                  ? `${WEEKDAY_NAMES[weekdayOf(anchorDay)]} ${formatDay(anchorDay)}`
+                  : `Week of ${weekStart.toLocaleDateString()}`}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={view} onValueChange={(value) => setView(value as 'day' | 'week')}>
+                <SelectTrigger aria-label="View" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Day</SelectItem>
+                  <SelectItem value="week">Week</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => setAnchor(addDays(anchor, -step))} aria-label={`Previous ${view}`}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+                Today
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAnchor(addDays(anchor, step))} aria-label={`Next ${view}`}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              <span className="ml-2 text-muted-foreground">Loading bookings...</span>
+            </div>
+          ) : facilities.length === 0 ? (
+            <div className="text-center py-8">
+              <Building2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No facilities yet.</p>
+              <p className="text-sm text-muted-foreground">Click "Add Facility" to get started.</p>
+            </div>
+          ) : view === 'week' ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Facility</TableHead>
+                  {weekDays.map((day) => (
+                    <TableHead key={day} className={day === today ? 'text-primary' : ''}>
+                      {WEEKDAY_NAMES[weekdayOf(day)].slice(0, 3)} {formatDay(day)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {facilities.map((facility) => (
+                  <TableRow key={facility.id}>
+                    <TableCell className="font-medium align-top">{facility.name}</TableCell>
+                    {weekDays.map((day) => (
+                      <TableCell key={day} className="align-top">
+                        <div className="space-y-1">
+                          {bookingsOn(facilityBookings(facility.id), day).map((booking) => (
+                            <div key={booking.id} className="rounded bg-secondary px-2 py-1 text-xs">
+                              <p className="font-medium">{booking.startTime}–{booking.endTime}</p>
+                              <p className="text-muted-foreground">{bookingLabel(booking.sportId)}</p>
+                            </div>
+                          ))}
+                        </div>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="space-y-2 overflow-x-auto">
+              <div className="flex min-w-[40rem]">
+                <div className="w-32 shrink-0" />
+                <div className="flex flex-1 text-xs text-muted-foreground">
+                  {TIMELINE_HOURS.map((hour) => (
+                    <span key={hour} className="flex-1">{hour.slice(0, 2)}</span>
+                  ))}
+                </div>
+              </div>
+              {facilities.map((facility) => (
+                <div key={facility.id} className="flex items-center min-w-[40rem]">
+                  <div className="w-32 shrink-0 text-sm font-medium">{facility.name}</div>
+                  <div className="relative flex-1 h-10 rounded border bg-muted/30">
+                    {bookingsOn(facilityBookings(facility.id), anchorDay).map((booking) => {
+                      const left = timelineOffset(booking.startTime);
+                      return (
+                        <div
+                          key={booking.id}
+                          className="absolute inset-y-1 overflow-hidden rounded bg-primary px-1 text-xs text-primary-foreground"
+                          style={{ left: `${left}%`, width: `${timelineOffset(booking.endTime) - left}%` }}
+                          title={`${bookingLabel(booking.sportId)} ${booking.startTime}–${booking.endTime}`}
+                        >
+                          {bookingLabel(booking.sportId)}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Facilities List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Facilities ({facilities.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {facilities.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No facilities yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Kind</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Bookings</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {facilities.map((facility) => (
+                  <TableRow key={facility.id}>
+                    <TableCell className="font-medium">{facility.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{FACILITY_KIND_LABELS[facility.kind]}</Badge>
+                    </TableCell>
+                    <TableCell>{facility.description}</TableCell>
+                    <TableCell>{facilityBookings(facility.id).length}</TableCell>
+                    <TableCell>
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(facility)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Facility</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete {facility.name}? All of its bookings will be removed as well.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteFacility(facility.id)}>
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Bookings List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Bookings ({bookings.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {bookings.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No bookings yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Facility</TableHead>
+                  <TableHead>Sport</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="w-16"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bookings.map((booking) => {
+                  const session = booking.sessionId ? sessionsById.get(booking.sessionId) : undefined;
+                  return (
+                    <TableRow key={booking.id}>
+                      <TableCell className="font-medium">{facilitiesById.get(booking.facilityId)?.name}</TableCell>
+                      <TableCell>
+                        <Link to={`/sports/${booking.sportId}`} className="hover:underline">
+                          {bookingLabel(booking.sportId)}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{describeBooking(booking)}</TableCell>
+                      <TableCell>
+                        {session ? `${WEEKDAY_NAMES[session.weekday]} ${session.startTime}` : '—'}
+                      </TableCell>
+                      <TableCell>{booking.note}</TableCell>
+                      <TableCell>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Booking</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to free {facilitiesById.get(booking.facilityId)?.name} {describeBooking(booking)}?
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteBooking(booking.id)}>
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FacilitiesPage;
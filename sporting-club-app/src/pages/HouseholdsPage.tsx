@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useBalances, useHouseholds, useSports } from '@/hooks/useSportingClub';
+import { SportingClubDB } from '@/lib/db';
+import { householdFormSchema, HouseholdFormValues } from '@/lib/schemas';
+import { formatMoney } from '@/lib/billing';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Home, Mail, Pencil, Phone, Plus, Trash2, User } from 'lucide-react';
+
+type Household = SportingClubDB['households']['value'];
+
+const emptyHouseholdForm: HouseholdFormValues = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  discountPercent: '',
+};
+
+const SUBSCRIPTION_STATUS_VARIANTS = {
+  active: 'default',
+  waitlisted: 'secondary',
+  cancelled: 'outline',
+} as const;
+
+const HouseholdsPage: React.FC = () => {
+  const {
+    households, members, subscriptions, loading, error, isInitialized,
+    addHousehold, updateHousehold, deleteHousehold,
+  } = useHouseholds();
+  const { sports } = useSports();
+  const { balances } = useBalances();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const form = useForm<HouseholdFormValues, unknown, z.output<typeof householdFormSchema>>({
+    resolver: zodResolver(householdFormSchema),
+    defaultValues: emptyHouseholdForm,
+  });
+
+  const handleSubmit = async (householdData: z.output<typeof householdFormSchema>) => {
+    const result = editingId
+      ? await updateHousehold(editingId, householdData)
+      : await addHousehold(householdData);
+    if (result) {
+      resetForm();
+    }
+  };
+
+  const handleEdit = (household: Household) => {
+    form.reset({
+      name: household.name,
+      contactName: household.contactName,
+      email: household.email,
+      phone: household.phone,
+      discountPercent: household.discountPercent === undefined ? '' : String(household.discountPercent),
+    });
+    setEditingId(household.id);
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    form.reset(emptyHouseholdForm);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const sportsById = new Map(sports.map(sport => [sport.id, sport]));
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Households</h1>
+          <p className="text-muted-foreground">Families registered under one primary contact</p>
+        </div>
+        <Button onClick={() => (showForm ? resetForm() : setShowForm(true))} className="gap-2">
+          <Plus className="h-4 w-4" />
+          {showForm ? 'Cancel' : 'Add Household'}
+        </Button>
+      </div>
+
+      {/* Add / Edit Household Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Household' : 'Add New Household'}</CardTitle>
+            <CardDescription>
+              {editingId ? 'Update the household and its primary contact' : 'Members are added to it from the Members page'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Household Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., The Smith family" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="contactName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Primary Contact *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Jane Smith" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email *</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="e.g., jane.smith@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., +1234567890" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="discountPercent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Family Discount (%)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" max="100" step="1" placeholder="No discount" {...field} />
+                        </FormControl>
+                        <FormDescription>Taken off every fee charged to the household's members</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {editingId ? 'Save Changes' : 'Add Household'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Households List */}
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          <span className="ml-2 text-muted-foreground">Loading households...</span>
+        </div>
+      ) : households.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <Home className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No households yet.</p>
+            <p className="text-sm text-muted-foreground">Click "Add Household" to get started.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        households.map((household) => {
+          const householdMembers = members.filter(member => member.householdId === household.id);
+          const memberIds = new Set(householdMembers.map(member => member.id));
+          const householdSubscriptions = subscriptions
+            .filter(sub => memberIds.has(sub.memberId))
+            .sort((a, b) => a.subscriptionDate.getTime() - b.subscriptionDate.getTime());
+          const balanceCents = householdMembers.reduce((sum, member) => sum + (balances.get(member.id)?.balanceCents ?? 0), 0);
+          const membersById = new Map(householdMembers.map(member => [member.id, member]));
+
+          return (
+            <Card key={household.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2">
+                      <Home className="h-5 w-5" />
+                      {household.name}
+                      {household.discountPercent && (
+                        <Badge variant="secondary">{household.discountPercent}% family discount</Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                      <span className="flex items-center gap-1"><User className="h-4 w-4" />{household.contactName}</span>
+                      <span className="flex items-center gap-1"><Mail className="h-4 w-4" />{household.email}</span>
+                      <span className="flex items-center gap-1"><Phone className="h-4 w-4" />{household.phone}</span>
+                    </CardDescription>
+                  </div>
+                  <div className="flex">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(household)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Household</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{household.name}"? Its members are kept but leave the household,
+                            so each of them needs an email and phone number of their own first.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteHousehold(household.id)}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {householdMembers.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">
+                    No members yet. Pick this household when adding or editing a member.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {householdMembers.map((member) => (
+                        <Link key={member.id} to={`/members/${member.id}`}>
+                          <Badge variant="outline" className="hover:bg-accent">
+                            {member.firstName} {member.lastName}
+                          </Badge>
+                        </Link>
+                      ))}
+                    </div>
+
+                    {householdSubscriptions.length === 0 ? (
+                      <p className="text-muted-foreground text-sm">No subscriptions yet.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Member</TableHead>
+                            <TableHead>Sport</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Since</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {householdSubscriptions.map((subscription) => {
+                            const member = membersById.get(subscription.memberId);
+                            return (
+                              <TableRow key={subscription.id}>
+                                <TableCell className="font-medium">{member?.firstName} {member?.lastName}</TableCell>
+                                <TableCell>
+                                  <Link to={`/sports/${subscription.sportId}`} className="hover:underline">
+                                    {sportsById.get(subscription.sportId)?.name ?? 'Archived sport'}
+                                  </Link>
+                                </TableCell>
+                                <TableCell>
+                                  <Badge variant={SUBSCRIPTION_STATUS_VARIANTS[subscription.status]}>{subscription.status}</Badge>
+                                </TableCell>
+                                <TableCell>{subscription.subscriptionDate.toLocaleDateString()}</TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    )}
+
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Household balance: </span>
+                      <span className={balanceCents > 0 ? 'font-medium text-destructive' : 'font-medium'}>
+                        {formatMoney(balanceCents)}
+                      </span>
+                    </p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default HouseholdsPage;
@@ -0,0 +1,266 @@
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useMembers } from '@/hooks/useSportingClub';
+import { parseCsv } from '@/lib/csv';
+import {
+  MEMBER_IMPORT_FIELDS,
+  DATE_FORMATS,
+  guessColumnMapping,
+  buildMemberImportPreview,
+  ColumnMapping,
+  DateFormat,
+  MemberImportField,
+} from '@/lib/memberImport';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, FileSpreadsheet, Upload, CheckCircle } from 'lucide-react';
+
+const NOT_MAPPED = 'none';
+
+interface CsvFile {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+interface ImportResult {
+  imported: number;
+  skipped: Array<{ email: string; reason: string }>;
+}
+
+const ImportMembersPage: React.FC = () => {
+  const { members, importMembers, error, isInitialized } = useMembers();
+  const [csvFile, setCsvFile] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('auto');
+  const [fileError, setFileError] = useState('');
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // Dry run: nothing is written until the user confirms the preview
+  const preview = useMemo(() => {
+    if (!csvFile || !mapping) return [];
+    return buildMemberImportPreview(csvFile.rows, mapping, dateFormat, members.flatMap(member => (member.email ? [member.email] : [])));
+  }, [csvFile, mapping, dateFormat, members]);
+
+  const validRows = preview.filter(row => row.member !== null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setCsvFile(null);
+    setMapping(null);
+    setFileError('');
+    setImportResult(null);
+    if (!file) return;
+
+    const [headers, ...rows] = parseCsv(await file.text());
+    if (!headers || rows.length === 0) {
+      setFileError('The file needs a header row and at least one member row');
+      return;
+    }
+
+    setCsvFile({ fileName: file.name, headers, rows });
+    setMapping(guessColumnMapping(headers));
+  };
+
+  const handleMappingChange = (field: MemberImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) });
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    const membershipDate = new Date();
+    const result = await importMembers(
+      validRows.flatMap(row => (row.member ? [{ ...row.member, membershipDate }] : []))
+    );
+    setImporting(false);
+
+    if (result) {
+      setImportResult({ imported: result.imported.length, skipped: result.skipped });
+      setCsvFile(null);
+      setMapping(null);
+    }
+  };
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Import Members</h1>
+          <p className="text-muted-foreground">Add members in bulk from a CSV spreadsheet export</p>
+        </div>
+        <Button variant="outline" asChild className="gap-2">
+          <Link to="/members">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Members
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            CSV File
+          </CardTitle>
+          <CardDescription>The first row must contain column headers</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="md:w-1/2 space-y-2">
+            <Label htmlFor="csvFile">File</Label>
+            <Input id="csvFile" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          </div>
+
+          {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+
+          {importResult && (
+            <div className="space-y-1">
+              <p className="text-sm text-green-700 flex items-center gap-2">
+                <CheckCircle className="h-4 w-4" />
+                Imported {importResult.imported} member{importResult.imported !== 1 ? 's' : ''}.
+              </p>
+              {importResult.skipped.map((skipped) => (
+                <p key={skipped.email} className="text-sm text-orange-600">
+                  Skipped {skipped.email}: {skipped.reason}
+                </p>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {csvFile && mapping && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Column Mapping</CardTitle>
+            <CardDescription>Match the columns of {csvFile.fileName} to member fields</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {MEMBER_IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`mapping-${field}`}>{label}</Label>
+                  <Select
+                    value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger id={`mapping-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {csvFile.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="dateFormat">Date Format</Label>
+                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+                  <SelectTrigger id="dateFormat">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((format) => (
+                      <SelectItem key={format.value} value={format.value}>
+                        {format.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {preview.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {validRows.length} of {preview.length} rows are ready to import. Rows with errors are skipped.
+                </CardDescription>
+              </div>
+              <Button onClick={handleImport} disabled={importing || validRows.length === 0} className="gap-2">
+                <Upload className="h-4 w-4" />
+                Import {validRows.length} Member{validRows.length !== 1 ? 's' : ''}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Date of Birth</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Problems</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map((row) => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell>{row.rowNumber}</TableCell>
+                    <TableCell>{row.values.firstName} {row.values.lastName}</TableCell>
+                    <TableCell>{row.values.email}</TableCell>
+                    <TableCell>{row.member ? row.member.dateOfBirth.toLocaleDateString() : row.values.dateOfBirth}</TableCell>
+                    <TableCell>
+                      <Badge variant={row.member ? 'default' : 'destructive'}>
+                        {row.member ? 'Ready' : 'Error'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-destructive">
+                      {row.errors.join('; ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ImportMembersPage;
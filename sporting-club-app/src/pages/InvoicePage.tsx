@@ -0,0 +1,232 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useInvoice } from '@/hooks/useSportingClub';
+import { invoicePaymentFormSchema, InvoicePaymentFormValues, PAYMENT_METHODS } from '@/lib/schemas';
+import { formatMoney, PAYMENT_METHOD_LABELS } from '@/lib/billing';
+import { formatInvoiceNumber } from '@/lib/invoices';
+import { toCalendarDay } from '@/lib/schedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, FileText, Printer } from 'lucide-react';
+
+const CLUB_NAME = 'SportClub Manager';
+
+const today = () => toCalendarDay(new Date());
+
+const InvoicePage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { invoice, loading, error, isInitialized, payInvoice } = useInvoice(id);
+  const form = useForm<InvoicePaymentFormValues, unknown, z.output<typeof invoicePaymentFormSchema>>({
+    resolver: zodResolver(invoicePaymentFormSchema),
+    defaultValues: { paidAt: today(), method: 'cash', reference: '' },
+  });
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading && !invoice) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        <span className="ml-2 text-muted-foreground">Loading invoice...</span>
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="text-center py-8">
+        <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">Invoice not found.</p>
+        <Button variant="link" asChild>
+          <Link to="/members">Back to Members</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const isReceipt = invoice.status === 'paid';
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar is left off the printed page */}
+      <div className="flex justify-between items-center print:hidden">
+        <Button variant="outline" asChild className="gap-2">
+          <Link to={`/members/${invoice.memberId}`}>
+            <ArrowLeft className="h-4 w-4" />
+            Back to Member
+          </Link>
+        </Button>
+        <Button onClick={() => window.print()} className="gap-2">
+          <Printer className="h-4 w-4" />
+          Print
+        </Button>
+      </div>
+
+      <Card className="print:shadow-none print:border-0">
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm text-muted-foreground">{CLUB_NAME}</p>
+              <CardTitle className="text-3xl">{isReceipt ? 'Receipt' : 'Invoice'}</CardTitle>
+              <CardDescription>{formatInvoiceNumber(invoice.number)}</CardDescription>
+            </div>
+            <Badge variant={isReceipt ? 'default' : 'outline'} className="print:hidden">
+              {invoice.status}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 gap-6 text-sm">
+            <div>
+              <p className="font-medium mb-1">Billed to</p>
+              <p>{invoice.billTo.name}</p>
+              <p className="text-muted-foreground">{invoice.billTo.email}</p>
+              <p className="text-muted-foreground whitespace-pre-line">{invoice.billTo.address}</p>
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 justify-self-end">
+              <dt className="text-muted-foreground">Issued</dt>
+              <dd>{invoice.issuedAt.toLocaleDateString()}</dd>
+              {invoice.paidAt && (
+                <>
+                  <dt className="text-muted-foreground">Paid</dt>
+                  <dd>{invoice.paidAt.toLocaleDateString()}</dd>
+                </>
+              )}
+            </dl>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoice.lines.map((line) => (
+                <TableRow key={line.subscriptionId}>
+                  <TableCell>{line.description}</TableCell>
+                  <TableCell>
+                    {line.periodStart.toLocaleDateString()}
+                    {line.periodEnd && ` – ${line.periodEnd.toLocaleDateString()}`}
+                  </TableCell>
+                  <TableCell className="text-right">{formatMoney(line.amountCents)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2} className="font-medium">{isReceipt ? 'Total paid' : 'Total due'}</TableCell>
+                <TableCell className="text-right font-bold">{formatMoney(invoice.totalCents)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {!isReceipt && (
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle>Mark as Paid</CardTitle>
+            <CardDescription>Records a payment for every line and turns this invoice into a receipt</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(payInvoice)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="paidAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Paid On *</FormLabel>
+                        <FormControl>
+                          <Input type="date" max={today()} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="method"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Method *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {PAYMENT_METHODS.map((method) => (
+                              <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="reference"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reference</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Transfer or card reference" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  Mark as Paid
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default InvoicePage;
@@ -0,0 +1,484 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMemberDetail } from '@/hooks/useSportingClub';
+import { buildMemberTimeline, formatEditField, TimelineEventKind } from '@/lib/memberTimeline';
+import { formatMoney, PAYMENT_GRACE_DAYS, PAYMENT_METHOD_LABELS } from '@/lib/billing';
+import { formatInvoiceNumber } from '@/lib/invoices';
+import { ATTENDANCE_STATUS_LABELS, MISSED_SESSIONS_ALERT, newestFirst, summarizeAttendance } from '@/lib/attendance';
+import { calculateAge } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { AlertTriangle, ArrowLeft, Banknote, ClipboardCheck, Clock, FileText, History, Pencil, Plus, Trash2, Trophy, UserCheck, UserMinus, UserPlus, Users } from 'lucide-react';
+
+const TIMELINE_ICONS: Record<TimelineEventKind, React.ElementType> = {
+  joined: UserPlus,
+  subscribed: UserCheck,
+  left: UserMinus,
+  waitlisted: Clock,
+  edited: Pencil,
+};
+
+const STATUS_VARIANTS = {
+  active: 'default',
+  waitlisted: 'outline',
+  cancelled: 'secondary',
+} as const;
+
+const MemberDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const {
+    member, history, payments, invoices, attendance, household, balance, loading, error, isInitialized, deletePayment, createInvoice,
+  } = useMemberDetail(id);
+  const navigate = useNavigate();
+
+  const handleCreateInvoice = async () => {
+    const invoice = await createInvoice();
+    if (invoice) {
+      navigate(`/invoices/${invoice.id}`);
+    }
+  };
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading && !member) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        <span className="ml-2 text-muted-foreground">Loading member...</span>
+      </div>
+    );
+  }
+
+  if (!member) {
+    return (
+      <div className="text-center py-8">
+        <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">Member not found.</p>
+        <Button variant="link" asChild>
+          <Link to="/members">Back to Members</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const timeline = buildMemberTimeline(member, history);
+  const edits = [...(member.edits ?? [])].reverse();
+  // Subscriptions the member no longer (or not yet) actively holds
+  const inactiveHistory = history.filter(({ subscription }) => subscription.status !== 'active');
+  const getSportName = (subscriptionId: string) =>
+    history.find(({ subscription }) => subscription.id === subscriptionId)?.sport?.name ?? 'Unknown sport';
+
+  const attendanceSummary = summarizeAttendance(attendance);
+  const attendanceBySport = [...new Set(attendance.map(record => record.sportId))].map(sportId => ({
+    sportId,
+    name: history.find(({ sport }) => sport?.id === sportId)?.sport?.name ?? 'Unknown sport',
+    summary: summarizeAttendance(attendance.filter(record => record.sportId === sportId)),
+  }));
+  const formatRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            {member.firstName} {member.lastName}
+            <Badge variant={member.status === 'active' ? 'default' : 'secondary'}>
+              {member.status}
+            </Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            Member since {member.membershipDate.toLocaleDateString()}
+            {member.archivedAt && ` · archived ${member.archivedAt.toLocaleDateString()}`}
+          </p>
+        </div>
+        <Button variant="outline" asChild className="gap-2">
+          <Link to="/members">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Members
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Email</dt>
+              <dd>{member.email ?? (household && `${household.email} (household contact)`)}</dd>
+              <dt className="text-muted-foreground">Phone</dt>
+              <dd>{member.phone || (household && `${household.phone} (household contact)`)}</dd>
+              {household && (
+                <>
+                  <dt className="text-muted-foreground">Household</dt>
+                  <dd>
+                    <Link to="/households" className="hover:underline">{household.name}</Link>
+                    {' '}· primary contact {household.contactName}
+                    {household.discountPercent && `, ${household.discountPercent}% family discount`}
+                  </dd>
+                </>
+              )}
+              <dt className="text-muted-foreground">Address</dt>
+              <dd>{member.address}</dd>
+              <dt className="text-muted-foreground">Date of birth</dt>
+              <dd>{member.dateOfBirth.toLocaleDateString()} (age {calculateAge(member.dateOfBirth)})</dd>
+              <dt className="text-muted-foreground">Created</dt>
+              <dd>{member.createdAt.toLocaleString()}</dd>
+              <dt className="text-muted-foreground">Last updated</dt>
+              <dd>{member.updatedAt.toLocaleString()}</dd>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5" />
+              Active Sports ({member.sports.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {member.sports.length === 0 ? (
+              <p className="text-muted-foreground text-sm">Not subscribed to any sport.</p>
+            ) : (
+              <ul className="space-y-2">
+                {member.sports.map((sport) => {
+                  const subscription = member.subscriptions.find(sub => sub.sportId === sport.id);
+                  return (
+                    <li key={sport.id} className="flex justify-between items-center text-sm">
+                      <span>
+                        <span className="font-medium">{sport.name}</span>
+                        <span className="text-muted-foreground"> · {sport.category}</span>
+                      </span>
+                      {subscription && (
+                        <span className="text-muted-foreground">
+                          since {subscription.subscriptionDate.toLocaleDateString()}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Waitlisted and Cancelled Subscriptions
+          </CardTitle>
+          <CardDescription>Every period the member held a spot, per sport</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {inactiveHistory.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No waitlisted or cancelled subscriptions.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sport</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Periods</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {inactiveHistory.map(({ subscription, sport, periods }) => (
+                  <TableRow key={subscription.id}>
+                    <TableCell className="font-medium">{sport?.name ?? 'Unknown sport'}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[subscription.status]}>{subscription.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {periods.length === 0 ? (
+                        <span className="text-muted-foreground">Never held a spot</span>
+                      ) : (
+                        periods.map((period) => (
+                          <div key={period.startDate.getTime()}>
+                            {period.startDate.toLocaleDateString()} – {period.endDate?.toLocaleDateString() ?? 'present'}
+                          </div>
+                        ))
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Attendance
+          </CardTitle>
+          <CardDescription>
+            {attendanceSummary.rate === null
+              ? 'No sessions recorded yet'
+              : `${formatRate(attendanceSummary.rate)} of sessions attended · ${attendanceSummary.present} present, ${attendanceSummary.absent} absent, ${attendanceSummary.excused} excused`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {attendanceSummary.missedInARow >= MISSED_SESSIONS_ALERT && (
+            <p className="text-sm text-destructive flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Missed the last {attendanceSummary.missedInARow} sessions in a row.
+            </p>
+          )}
+          {attendance.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sport</TableHead>
+                    <TableHead>Present</TableHead>
+                    <TableHead>Absent</TableHead>
+                    <TableHead>Excused</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {attendanceBySport.map(({ sportId, name, summary }) => (
+                    <TableRow key={sportId}>
+                      <TableCell className="font-medium">{name}</TableCell>
+                      <TableCell>{summary.present}</TableCell>
+                      <TableCell>{summary.absent}</TableCell>
+                      <TableCell>{summary.excused}</TableCell>
+                      <TableCell className="text-right">{formatRate(summary.rate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <ul className="space-y-2 text-sm">
+                {newestFirst(attendance).slice(0, 10).map((record) => (
+                  <li key={record.id} className="flex justify-between items-center">
+                    <span>
+                      <Link to={`/attendance?session=${record.sessionId}&day=${record.day}`} className="hover:underline">
+                        {new Date(`${record.day}T12:00:00`).toLocaleDateString()}
+                      </Link>
+                      <span className="text-muted-foreground">
+                        {' '}· {attendanceBySport.find(entry => entry.sportId === record.sportId)?.name}
+                      </span>
+                    </span>
+                    <Badge variant={record.status === 'absent' ? 'destructive' : record.status === 'present' ? 'default' : 'secondary'}>
+                      {ATTENDANCE_STATUS_LABELS[record.status]}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5" />
+            Fees and Payments
+          </CardTitle>
+          {balance && (
+            <CardDescription>
+              Charged {formatMoney(balance.chargedCents)} · paid {formatMoney(balance.paidCents)} ·{' '}
+              {balance.balanceCents >= 0
+                ? `${formatMoney(balance.balanceCents)} outstanding`
+                : `${formatMoney(-balance.balanceCents)} in credit`}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {balance && balance.overdueCents > 0 && (
+            <p className="text-sm text-destructive">
+              {formatMoney(balance.overdueCents)} has been unpaid for more than {PAYMENT_GRACE_DAYS} days.
+            </p>
+          )}
+          {payments.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No payments recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Sport</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{payment.paidAt.toLocaleDateString()}</TableCell>
+                    <TableCell>{getSportName(payment.subscriptionId)}</TableCell>
+                    <TableCell>{PAYMENT_METHOD_LABELS[payment.method]}</TableCell>
+                    <TableCell>{payment.reference || '—'}</TableCell>
+                    <TableCell className="text-right">{formatMoney(payment.amountCents)}</TableCell>
+                    <TableCell>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" aria-label="Delete payment">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Payment</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Delete the {formatMoney(payment.amountCents)} payment of {payment.paidAt.toLocaleDateString()}? Only do this to correct a booking mistake.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deletePayment(payment.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Invoices ({invoices.length})
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={handleCreateInvoice} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Create Invoice
+            </Button>
+          </div>
+          <CardDescription>Bills the current period of every active subscription with a fee</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No invoices issued.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/invoices/${invoice.id}`} className="hover:underline">
+                        {formatInvoiceNumber(invoice.number)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{invoice.issuedAt.toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={invoice.status === 'paid' ? 'default' : 'outline'}>{invoice.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(invoice.totalCents)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {timeline.map((event, index) => {
+                const Icon = TIMELINE_ICONS[event.kind];
+                return (
+                  <li key={index} className="flex gap-3 text-sm">
+                    <Icon className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                    <div>
+                      <p className="font-medium">{event.title}</p>
+                      {event.detail && <p className="text-muted-foreground">{event.detail}</p>}
+                      <p className="text-xs text-muted-foreground">{event.date.toLocaleDateString()}</p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Edit History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {edits.length === 0 ? (
+              <p className="text-muted-foreground text-sm">The profile has not been edited since it was created.</p>
+            ) : (
+              <ul className="space-y-4">
+                {edits.map((edit) => (
+                  <li key={edit.editedAt.getTime()} className="text-sm">
+                    <p className="text-xs text-muted-foreground mb-1">{edit.editedAt.toLocaleString()}</p>
+                    <ul className="space-y-1">
+                      {edit.changes.map((change) => (
+                        <li key={change.field}>
+                          <span className="font-medium capitalize">{formatEditField(change.field)}</span>:{' '}
+                          <span className="text-muted-foreground line-through">{change.from || '—'}</span>{' '}
+                          → {change.to || '—'}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default MemberDetailPage;
@@ -1,101 +1,261 @@
-import React, { useState } from 'react';
-import { useMembers } from '@/hooks/useSportingClub';
-import { Button } from '@/components/ui/button';
+import React, { useState, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useHouseholds, useMembers } from '@/hooks/useSportingClub';
+import { DeleteImpact, SportingClubDB } from '@/lib/db';
+import { memberFormSchema, MemberFormValues } from '@/lib/schemas';
+import {
+  parseMemberQuery,
+  serializeMemberQuery,
+  searchMembers,
+  sortMembers,
+  paginate,
+  MemberQuery,
+  MemberStatusFilter,
+  MemberSortKey,
+  MemberGrouping,
+} from '@/lib/memberQuery';
+import { groupByHousehold, memberContact } from '@/lib/households';
+import { Button, buttonVariants } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Plus, Trash2, User, Mail, Phone, MapPin, Calendar } from 'lucide-react';
+import { Plus, Pencil, Trash2, FileSpreadsheet, Search, ArrowUpDown, ChevronLeft, ChevronRight, User, Mail, Phone, MapPin, Calendar, Home, Archive, ArchiveRestore } from 'lucide-react';
+
+type Member = SportingClubDB['members']['value'];
+
+// Radix Select items cannot have an empty value
+const NO_HOUSEHOLD = 'none';
+
+const emptyMemberForm: MemberFormValues = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  householdId: NO_HOUSEHOLD,
+  dateOfBirth: '',
+  address: '',
+  status: 'active',
+};
 
 const MembersPage: React.FC = () => {
-  const { members, addMember, deleteMember, loading, error, isInitialized } = useMembers();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = parseMemberQuery(searchParams);
+  const {
+    members: currentMembers, archivedMembers, addMember, updateMember, archiveMember, restoreMember, purgeMember,
+    getMemberDeleteImpact, loading, error, isInitialized,
+  } = useMembers(query.status === 'all' || query.status === 'archived' ? undefined : query.status);
+  const members = query.status === 'archived' ? archivedMembers : currentMembers;
+  const { households } = useHouseholds();
   const [showForm, setShowForm] = useState(false);
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    dateOfBirth: '',
-    address: '',
-    status: 'active' as 'active' | 'inactive',
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const form = useForm<MemberFormValues, unknown, z.output<typeof memberFormSchema>>({
+    resolver: zodResolver(memberFormSchema),
+    defaultValues: emptyMemberForm,
   });
-  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [deleteImpact, setDeleteImpact] = useState<DeleteImpact | null>(null);
 
-  const validateForm = () => {
-    const errors: Record<string, string> = {};
-    
-    if (!formData.firstName.trim()) {
-      errors.firstName = 'First name is required';
-    }
-    
-    if (!formData.lastName.trim()) {
-      errors.lastName = 'Last name is required';
-    }
-    
-    if (!formData.email.trim()) {
-      errors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      errors.email = 'Email is invalid';
-    }
-    
-    if (!formData.phone.trim()) {
-      errors.phone = 'Phone number is required';
-    }
-    
-    if (!formData.dateOfBirth) {
-      errors.dateOfBirth = 'Date of birth is required';
-    }
-    
-    if (!formData.address.trim()) {
-      errors.address = 'Address is required';
-    }
+  const visibleMembers = useMemo(() => {
+    const sorted = sortMembers(searchMembers(members, query.search), query.sort, query.direction);
+    // Grouped views page through the members household by household
+    return query.group === 'household' ? groupByHousehold(sorted, households).flatMap(group => group.members) : sorted;
+  }, [members, households, query.search, query.sort, query.direction, query.group]);
+  const { items: pageMembers, page, pageCount } = paginate(visibleMembers, query.page);
+  const householdsById = new Map(households.map(household => [household.id, household]));
+  const watchedHouseholdId = form.watch('householdId');
+  const inHousehold = watchedHouseholdId !== NO_HOUSEHOLD && watchedHouseholdId !== '';
+  const isFiltered = query.search !== '' || query.status !== 'all';
 
-    setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+  // The view lives in the URL so it survives reloads and can be shared; any change but paging restarts at page 1
+  const updateQuery = (changes: Partial<MemberQuery>) => {
+    setSearchParams(serializeMemberQuery({ ...query, page: 1, ...changes }), { replace: true });
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
-
-    const memberData = {
-      firstName: formData.firstName.trim(),
-      lastName: formData.lastName.trim(),
-      email: formData.email.trim(),
-      phone: formData.phone.trim(),
-      dateOfBirth: new Date(formData.dateOfBirth),
-      address: formData.address.trim(),
-      status: formData.status,
-      membershipDate: new Date(),
-    };
-
-    const result = await addMember(memberData);
+  const handleSubmit = async (memberData: z.output<typeof memberFormSchema>) => {
+    // Editing keeps the original membership date
+    const result = editingId
+      ? await updateMember(editingId, memberData)
+      : await addMember({ ...memberData, membershipDate: new Date() });
     if (result) {
       resetForm();
     }
   };
 
-  const handleDelete = async (id: string) => {
-    await deleteMember(id);
+  const handleEdit = (member: Member) => {
+    form.reset({
+      firstName: member.firstName,
+      lastName: member.lastName,
+      email: member.email ?? '',
+      phone: member.phone,
+      householdId: member.householdId ?? NO_HOUSEHOLD,
+      dateOfBirth: member.dateOfBirth.toISOString().slice(0, 10),
+      address: member.address,
+      status: member.status,
+    });
+    setEditingId(member.id);
+    setShowForm(true);
+  };
+
+  const handleDeleteDialogChange = async (open: boolean, id: string) => {
+    setDeleteImpact(null);
+    if (open) {
+      setDeleteImpact(await getMemberDeleteImpact(id));
+    }
+  };
+
+  const handleArchive = async (id: string) => {
+    await archiveMember(id);
+  };
+
+  const handleRestore = async (id: string) => {
+    await restoreMember(id);
+  };
+
+  const handlePurge = async (id: string) => {
+    await purgeMember(id);
   };
 
   const resetForm = () => {
-    setFormData({
-      firstName: '',
-      lastName: '',
-      email: '',
-      phone: '',
-      dateOfBirth: '',
-      address: '',
-      status: 'active',
-    });
-    setFormErrors({});
+    form.reset(emptyMemberForm);
+    setEditingId(null);
     setShowForm(false);
   };
 
+  const renderMemberCard = (member: Member) => {
+    const household = member.householdId ? householdsById.get(member.householdId) : undefined;
+    const contact = memberContact(member, household);
+    return (
+      <Card key={member.id} className="hover:shadow-md transition-shadow">
+        <CardHeader className="pb-3">
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="text-lg">
+                <Link to={`/members/${member.id}`} className="hover:underline">
+                  {member.firstName} {member.lastName}
+                </Link>
+              </CardTitle>
+              <Badge variant={member.status === 'active' ? 'default' : 'secondary'} className="w-fit mt-1">
+                {member.status}
+              </Badge>
+              {household && (
+                <Badge variant="outline" className="w-fit mt-1 ml-1" title={contact.shared ? `Reached through ${household.contactName}` : undefined}>
+                  {household.name}
+                </Badge>
+              )}
+            </div>
+            <div className="flex">
+              {member.archivedAt ? (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(member.id)}
+                    aria-label={`Restore ${member.firstName} ${member.lastName}`}
+                  >
+                    <ArchiveRestore className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog onOpenChange={(open) => handleDeleteDialogChange(open, member.id)}>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        aria-label={`Purge ${member.firstName} ${member.lastName}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Purge Member</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Permanently delete "{member.firstName} {member.lastName}"?{' '}
+                          {deleteImpact === null
+                            ? 'Checking subscriptions...'
+                            : `${deleteImpact.active + deleteImpact.waitlisted + deleteImpact.cancelled} subscription(s) will be deleted,`}
+                          {' '}together with the member's payments, invoices and attendance.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          className={buttonVariants({ variant: 'destructive' })}
+                          onClick={() => handlePurge(member.id)}
+                        >
+                          Purge
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              ) : (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(member)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog onOpenChange={(open) => handleDeleteDialogChange(open, member.id)}>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" aria-label={`Archive ${member.firstName} ${member.lastName}`}>
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Archive Member</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Archive "{member.firstName} {member.lastName}"?{' '}
+                          {deleteImpact === null
+                            ? 'Checking subscriptions...'
+                            : deleteImpact.active + deleteImpact.waitlisted > 0
+                            ? `${deleteImpact.active} active subscription(s) and ${deleteImpact.waitlisted} waitlist entr${deleteImpact.waitlisted === 1 ? 'y' : 'ies'} will be cancelled.`
+                            : 'There are no active subscriptions to cancel.'}
+                          {' '}The member and their history are kept under the "Archived" filter, where they can be restored or purged.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleArchive(member.id)}>
+                          Archive
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Mail className="h-4 w-4" />
+            <span className="truncate">{contact.email}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Phone className="h-4 w-4" />
+            <span>{contact.phone}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4" />
+            <span className="truncate">{member.address}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Calendar className="h-4 w-4" />
+            <span>Born: {member.dateOfBirth.toLocaleDateString()}</span>
+          </div>
+          <p className="text-xs text-muted-foreground pt-2">
+            Member since: {member.membershipDate.toLocaleDateString()}
+            {member.archivedAt && ` · Archived: ${member.archivedAt.toLocaleDateString()}`}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  };
+
   if (!isInitialized) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -127,120 +287,181 @@ const MembersPage: React.FC = () => {
           <h1 className="text-3xl font-bold tracking-tight">Members</h1>
           <p className="text-muted-foreground">Manage your club members</p>
         </div>
-        <Button onClick={() => setShowForm(!showForm)} className="gap-2">
-          <Plus className="h-4 w-4" />
-          {showForm ? 'Cancel' : 'Add Member'}
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild className="gap-2">
+            <Link to="/members/import">
+              <FileSpreadsheet className="h-4 w-4" />
+              Import CSV
+            </Link>
+          </Button>
+          <Button onClick={() => (showForm ? resetForm() : setShowForm(true))} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {showForm ? 'Cancel' : 'Add Member'}
+          </Button>
+        </div>
       </div>
 
-      {/* Add Member Form */}
+      {/* Add / Edit Member Form */}
       {showForm && (
         <Card>
           <CardHeader>
-            <CardTitle>Add New Member</CardTitle>
-            <CardDescription>Register a new member to your club</CardDescription>
+            <CardTitle>{editingId ? 'Edit Member' : 'Add New Member'}</CardTitle>
+            <CardDescription>
+              {editingId ? 'Update the details of this member' : 'Register a new member to your club'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="firstName">First Name *</Label>
-                  <Input
-                    id="firstName"
-                    value={formData.firstName}
-                    onChange={(e) => setFormData({ ...formData, firstName: e.target.value })}
-                    placeholder="e.g., John"
-                    className={formErrors.firstName ? 'border-destructive' : ''}
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., John" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  {formErrors.firstName && <p className="text-sm text-destructive">{formErrors.firstName}</p>}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="lastName">Last Name *</Label>
-                  <Input
-                    id="lastName"
-                    value={formData.lastName}
-                    onChange={(e) => setFormData({ ...formData, lastName: e.target.value })}
-                    placeholder="e.g., Doe"
-                    className={formErrors.lastName ? 'border-destructive' : ''}
+                  <FormField
+                    control={form.control}
+                    name="lastName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Doe" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  {formErrors.lastName && <p className="text-sm text-destructive">{formErrors.lastName}</p>}
                 </div>
-              </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email *</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    value={formData.email}
-                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                    placeholder="e.g., john.doe@example.com"
-                    className={formErrors.email ? 'border-destructive' : ''}
+                <FormField
+                  control={form.control}
+                  name="householdId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Household</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_HOUSEHOLD}>No household</SelectItem>
+                          {households.map((household) => (
+                            <SelectItem key={household.id} value={household.id}>{household.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Members of a household can leave their email and phone empty to be reached through its primary contact
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{inHousehold ? 'Email' : 'Email *'}</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="e.g., john.doe@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  {formErrors.email && <p className="text-sm text-destructive">{formErrors.email}</p>}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="phone">Phone *</Label>
-                  <Input
-                    id="phone"
-                    value={formData.phone}
-                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                    placeholder="e.g., +1234567890"
-                    className={formErrors.phone ? 'border-destructive' : ''}
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{inHousehold ? 'Phone' : 'Phone *'}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., +1234567890" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  {formErrors.phone && <p className="text-sm text-destructive">{formErrors.phone}</p>}
                 </div>
-              </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="dateOfBirth">Date of Birth *</Label>
-                  <Input
-                    id="dateOfBirth"
-                    type="date"
-                    value={formData.dateOfBirth}
-                    onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })}
-                    className={formErrors.dateOfBirth ? 'border-destructive' : ''}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="dateOfBirth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Date of Birth *</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  {formErrors.dateOfBirth && <p className="text-sm text-destructive">{formErrors.dateOfBirth}</p>}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="status">Status</Label>
-                  <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value as 'active' | 'inactive' })}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="active">Active</SelectItem>
-                      <SelectItem value="inactive">Inactive</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="active">Active</SelectItem>
+                            <SelectItem value="inactive">Inactive</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="address">Address *</Label>
-                <Input
-                  id="address"
-                  value={formData.address}
-                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                  placeholder="e.g., 123 Main St, City, State"
-                  className={formErrors.address ? 'border-destructive' : ''}
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 123 Main St, City, State" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-                {formErrors.address && <p className="text-sm text-destructive">{formErrors.address}</p>}
-              </div>
 
-              <div className="flex gap-2">
-                <Button type="submit">Add Member</Button>
-                <Button type="button" variant="outline" onClick={resetForm}>
-                  Cancel
-                </Button>
-              </div>
-            </form>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {editingId ? 'Save Changes' : 'Add Member'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
           </CardContent>
         </Card>
       )}
@@ -250,8 +471,58 @@ const MembersPage: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <User className="h-5 w-5" />
-            All Members ({members.length})
+            {isFiltered ? `Matching Members (${visibleMembers.length})` : `All Members (${members.length})`}
           </CardTitle>
+          <div className="flex flex-col md:flex-row gap-2 pt-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={query.search}
+                onChange={(e) => updateQuery({ search: e.target.value })}
+                placeholder="Search by name, email or phone"
+                className="pl-8"
+                aria-label="Search members"
+              />
+            </div>
+            <Select value={query.status} onValueChange={(value) => updateQuery({ status: value as MemberStatusFilter })}>
+              <SelectTrigger className="md:w-40" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Inactive</SelectItem>
+                <SelectItem value="archived">Archived</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={query.sort} onValueChange={(value) => updateQuery({ sort: value as MemberSortKey })}>
+              <SelectTrigger className="md:w-48" aria-label="Sort by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="name">Sort by name</SelectItem>
+                <SelectItem value="membershipDate">Sort by member since</SelectItem>
+                <SelectItem value="age">Sort by age</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => updateQuery({ direction: query.direction === 'asc' ? 'desc' : 'asc' })}
+              className="gap-2"
+            >
+              <ArrowUpDown className="h-4 w-4" />
+              {query.direction === 'asc' ? 'Ascending' : 'Descending'}
+            </Button>
+            <Select value={query.group} onValueChange={(value) => updateQuery({ group: value as MemberGrouping })}>
+              <SelectTrigger className="md:w-48" aria-label="Group by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No grouping</SelectItem>
+                <SelectItem value="household">Group by household</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -259,6 +530,14 @@ const MembersPage: React.FC = () => {
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
               <span className="ml-2 text-muted-foreground">Loading members...</span>
             </div>
+          ) : visibleMembers.length === 0 && isFiltered ? (
+            <div className="text-center py-8">
+              <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No members match your filters.</p>
+              <Button variant="link" onClick={() => setSearchParams({}, { replace: true })}>
+                Clear filters
+              </Button>
+            </div>
           ) : members.length === 0 ? (
             <div className="text-center py-8">
               <User className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -266,65 +545,46 @@ const MembersPage: React.FC = () => {
               <p className="text-sm text-muted-foreground">Click "Add Member" to get started.</p>
             </div>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {members.map((member) => (
-                <Card key={member.id} className="hover:shadow-md transition-shadow">
-                  <CardHeader className="pb-3">
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <CardTitle className="text-lg">
-                          {member.firstName} {member.lastName}
-                        </CardTitle>
-                        <Badge variant={member.status === 'active' ? 'default' : 'secondary'} className="w-fit mt-1">
-                          {member.status}
-                        </Badge>
-                      </div>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete Member</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Are you sure you want to delete "{member.firstName} {member.lastName}"? This action cannot be undone.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction onClick={() => handleDelete(member.id)}>
-                              Delete
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
+            <div className="space-y-4">
+              {query.group === 'household' ? (
+                groupByHousehold(pageMembers, households).map(({ household, members: groupMembers }) => (
+                  <div key={household?.id ?? 'none'} className="space-y-2">
+                    <h3 className="flex items-center gap-2 font-semibold">
+                      <Home className="h-4 w-4" />
+                      {household ? household.name : 'No household'}
+                      {household && (
+                        <span className="text-sm font-normal text-muted-foreground">
+                          · {household.contactName}, {household.email}
+                        </span>
+                      )}
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {groupMembers.map(renderMemberCard)}
                     </div>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Mail className="h-4 w-4" />
-                      <span className="truncate">{member.email}</span>
-                    </div>
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Phone className="h-4 w-4" />
-                      <span>{member.phone}</span>
-                    </div>
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <MapPin className="h-4 w-4" />
-                      <span className="truncate">{member.address}</span>
-                    </div>
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Calendar className="h-4 w-4" />
-                      <span>Born: {member.dateOfBirth.toLocaleDateString()}</span>
-                    </div>
-                    <p className="text-xs text-muted-foreground pt-2">
-                      Member since: {member.membershipDate.toLocaleDateString()}
-                    </p>
-                  </CardContent>
-                </Card>
-              ))}
+                  </div>
+                ))
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {pageMembers.map(renderMemberCard)}
+                </div>
+              )}
+              {pageCount > 1 && (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    Page {page} of {pageCount}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => updateQuery({ page: page - 1 })}>
+                      <ChevronLeft className="h-4 w-4" />
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => updateQuery({ page: page + 1 })}>
+                      Next
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useRosters } from '@/hooks/useSportingClub';
+import { rosterToCsv, rostersToCsv, rosterFileName } from '@/lib/roster';
+import { downloadCsv } from '@/lib/csv';
+import { calculateAge } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Download, Printer, Users } from 'lucide-react';
+
+const RosterPage: React.FC = () => {
+  const { sportId } = useParams<{ sportId: string }>();
+  const { rosters, loading, error, isInitialized } = useRosters(sportId);
+
+  const handleDownload = () => {
+    if (sportId && rosters.length === 1) {
+      downloadCsv(rosterToCsv(rosters[0]), rosterFileName(rosters[0].sport.name));
+    } else {
+      downloadCsv(rostersToCsv(rosters), rosterFileName('all-sports'));
+    }
+  };
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {sportId && rosters.length === 1 ? `${rosters[0].sport.name} Roster` : 'Rosters'}
+          </h1>
+          <p className="text-muted-foreground">
+            Active members as of {new Date().toLocaleDateString()}
+          </p>
+        </div>
+        {/* Toolbar is left off the printed page */}
+        <div className="flex gap-2 print:hidden">
+          <Button variant="outline" asChild className="gap-2">
+            <Link to="/sports">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Sports
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={rosters.length === 0} className="gap-2">
+            <Download className="h-4 w-4" />
+            Download CSV
+          </Button>
+          <Button onClick={() => window.print()} disabled={rosters.length === 0} className="gap-2">
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          <span className="ml-2 text-muted-foreground">Loading rosters...</span>
+        </div>
+      ) : rosters.length === 0 ? (
+        <div className="text-center py-8">
+          <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">No sport found.</p>
+        </div>
+      ) : (
+        rosters.map((roster) => (
+          <Card key={roster.sport.id} className="print:shadow-none print:border-0 print:break-inside-avoid">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{roster.sport.name}</span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {roster.sport.category} · {roster.entries.length} member{roster.entries.length !== 1 ? 's' : ''}
+                  {roster.sport.maxMembers && ` / ${roster.sport.maxMembers}`}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {roster.entries.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No active members.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Address</TableHead>
+                      <TableHead>Age</TableHead>
+                      <TableHead>Subscribed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {roster.entries.map(({ member, subscription }) => (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">{member.lastName}, {member.firstName}</TableCell>
+                        <TableCell>{member.email}</TableCell>
+                        <TableCell>{member.phone}</TableCell>
+                        <TableCell>{member.address}</TableCell>
+                        <TableCell>{calculateAge(member.dateOfBirth)}</TableCell>
+                        <TableCell>{subscription.subscriptionDate.toLocaleDateString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default RosterPage;
@@ -0,0 +1,509 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useClubCache, useMembers, useSessions, useSports } from '@/hooks/useSportingClub';
+import { SportingClubDB } from '@/lib/db';
+import { holidayFormSchema, HolidayFormValues, sessionFormSchema, SessionFormValues } from '@/lib/schemas';
+import { addDays, buildWeekSchedule, startOfWeek, toCalendarDay, WEEKDAY_NAMES, WEEKDAY_ORDER } from '@/lib/schedule';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { CalendarDays, CalendarOff, ChevronLeft, ChevronRight, Pencil, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+
+type Session = SportingClubDB['sessions']['value'];
+
+// Radix Select items cannot have an empty value
+const ALL = 'all';
+
+const emptySessionForm: SessionFormValues = {
+  sportId: '',
+  weekday: '',
+  startTime: '',
+  endTime: '',
+  location: '',
+  coach: '',
+};
+
+const SchedulePage: React.FC = () => {
+  const {
+    sessions, loading, error, isInitialized,
+    addSession, updateSession, deleteSession, setSessionException, addHoliday,
+  } = useSessions();
+  const { sports } = useSports();
+  const { members } = useMembers();
+  const cache = useClubCache();
+
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [sportFilter, setSportFilter] = useState(ALL);
+  const [memberFilter, setMemberFilter] = useState(ALL);
+  const [holidayResult, setHolidayResult] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const form = useForm<SessionFormValues, unknown, z.output<typeof sessionFormSchema>>({
+    resolver: zodResolver(sessionFormSchema),
+    defaultValues: emptySessionForm,
+  });
+  const holidayForm = useForm<HolidayFormValues, unknown, z.output<typeof holidayFormSchema>>({
+    resolver: zodResolver(holidayFormSchema),
+    defaultValues: { date: '' },
+  });
+
+  const handleSubmit = async (sessionData: z.output<typeof sessionFormSchema>) => {
+    const result = editingId
+      ? await updateSession(editingId, sessionData)
+      : await addSession(sessionData);
+    if (result) {
+      resetForm();
+    }
+  };
+
+  const handleEdit = (session: Session) => {
+    form.reset({
+      sportId: session.sportId,
+      weekday: String(session.weekday),
+      startTime: session.startTime,
+      endTime: session.endTime,
+      location: session.location,
+      coach: session.coach,
+    });
+    setEditingId(session.id);
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    form.reset(emptySessionForm);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const handleAddHoliday = async ({ date }: z.output<typeof holidayFormSchema>) => {
+    const affected = await addHoliday(date);
+    if (affected !== null) {
+      setHolidayResult(`${affected} session${affected !== 1 ? 's' : ''} cancelled on ${new Date(`${date}T12:00:00`).toLocaleDateString()}.`);
+      holidayForm.reset({ date: '' });
+    }
+  };
+
+  // Sports the filtered member actively holds a spot in; null when no member is selected
+  const memberSportIds = useMemo(() => {
+    if (memberFilter === ALL) return null;
+    return new Set([...cache.subscriptions.values()]
+      .filter(sub => sub.memberId === memberFilter && sub.status === 'active')
+      .map(sub => sub.sportId));
+  }, [cache.subscriptions, memberFilter]);
+
+  const sportsById = new Map(sports.map(sport => [sport.id, sport]));
+
+  // Sessions of archived or deleted sports are left off the schedule
+  const visibleSessions = sessions.filter(session =>
+    sportsById.has(session.sportId) &&
+    (sportFilter === ALL || session.sportId === sportFilter) &&
+    (memberSportIds === null || memberSportIds.has(session.sportId))
+  );
+  const week = buildWeekSchedule(visibleSessions, weekStart);
+  const today = toCalendarDay(new Date());
+
+  const sortedSessions = sessions
+    .filter(session => sportsById.has(session.sportId))
+    .sort((a, b) =>
+      WEEKDAY_ORDER.indexOf(a.weekday) - WEEKDAY_ORDER.indexOf(b.weekday) ||
+      a.startTime.localeCompare(b.startTime)
+    );
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Schedule</h1>
+          <p className="text-muted-foreground">Weekly training sessions for every sport</p>
+        </div>
+        <Button onClick={() => (showForm ? resetForm() : setShowForm(true))} className="gap-2">
+          <Plus className="h-4 w-4" />
+          {showForm ? 'Cancel' : 'Add Session'}
+        </Button>
+      </div>
+
+      {/* Add / Edit Session Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Session' : 'Add New Session'}</CardTitle>
+            <CardDescription>
+              {editingId ? 'Update this recurring session' : 'Create a session that repeats every week'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="sportId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sport *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a sport" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {sports.map((sport) => (
+                              <SelectItem key={sport.id} value={sport.id}>{sport.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="weekday"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Weekday *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a weekday" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {WEEKDAY_ORDER.map((weekday) => (
+                              <SelectItem key={weekday} value={String(weekday)}>{WEEKDAY_NAMES[weekday]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="startTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Time *</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="endTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Time *</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Location *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Main hall" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="coach"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Coach *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Jane Smith" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {editingId ? 'Save Changes' : 'Add Session'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+            <CardDescription>Show one sport, or the sports a member is actively subscribed to</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select value={sportFilter} onValueChange={setSportFilter}>
+              <SelectTrigger aria-label="Sport">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All sports</SelectItem>
+                {sports.map((sport) => (
+                  <SelectItem key={sport.id} value={sport.id}>{sport.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={memberFilter} onValueChange={setMemberFilter}>
+              <SelectTrigger aria-label="Member">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All members</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.firstName} {member.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="h-5 w-5" />
+              Holiday
+            </CardTitle>
+            <CardDescription>Cancels every session on the chosen day</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Form {...holidayForm}>
+              <form onSubmit={holidayForm.handleSubmit(handleAddHoliday)} className="flex items-start gap-2">
+                <FormField
+                  control={holidayForm.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input type="date" aria-label="Holiday date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" variant="outline" disabled={holidayForm.formState.isSubmitting}>
+                  Add Holiday
+                </Button>
+              </form>
+            </Form>
+            {holidayResult && <p className="text-sm text-muted-foreground">{holidayResult}</p>}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Weekly Calendar */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Week of {weekStart.toLocaleDateString()}
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))} aria-label="Previous week">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfWeek(new Date()))}>
+                This Week
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))} aria-label="Next week">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              <span className="ml-2 text-muted-foreground">Loading sessions...</span>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+              {week.map(({ date, day, occurrences }) => (
+                <div
+                  key={day}
+                  className={`rounded-md border p-2 space-y-2 min-h-32 ${day === today ? 'border-primary' : ''}`}
+                >
+                  <div className="text-sm">
+                    <p className="font-medium">{WEEKDAY_NAMES[date.getDay()]}</p>
+                    <p className="text-muted-foreground">{date.toLocaleDateString()}</p>
+                  </div>
+                  {occurrences.length === 0 && <p className="text-xs text-muted-foreground">No sessions</p>}
+                  {occurrences.map(({ session, cancelled }) => (
+                    <div
+                      key={session.id}
+                      className={`rounded bg-secondary p-2 text-xs space-y-1 ${cancelled ? 'opacity-60' : ''}`}
+                    >
+                      <div className="flex justify-between items-start gap-1">
+                        <p className={`font-medium ${cancelled ? 'line-through' : ''}`}>
+                          {session.startTime}–{session.endTime}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => setSessionException(session.id, day, !cancelled)}
+                          className="text-muted-foreground hover:text-foreground"
+                          aria-label={cancelled ? 'Restore this session' : 'Cancel this session on this day'}
+                          title={cancelled ? 'Restore' : 'Cancel on this day'}
+                        >
+                          {cancelled ? <RotateCcw className="h-3 w-3" /> : <X className="h-3 w-3" />}
+                        </button>
+                      </div>
+                      <Link to={`/sports/${session.sportId}`} className="block font-medium hover:underline">
+                        {sportsById.get(session.sportId)?.name}
+                      </Link>
+                      <p className="text-muted-foreground">{session.location}</p>
+                      <p className="text-muted-foreground">{session.coach}</p>
+                      {cancelled ? (
+                        <Badge variant="destructive">Cancelled</Badge>
+                      ) : day <= today && (
+                        <Link to={`/attendance?session=${session.id}&day=${day}`} className="block text-primary hover:underline">
+                          Check in
+                        </Link>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sessions List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Sessions ({sortedSessions.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sortedSessions.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarDays className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No sessions scheduled yet.</p>
+              <p className="text-sm text-muted-foreground">Click "Add Session" to get started.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sport</TableHead>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Coach</TableHead>
+                  <TableHead>Exceptions</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedSessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell className="font-medium">{sportsById.get(session.sportId)?.name}</TableCell>
+                    <TableCell>{WEEKDAY_NAMES[session.weekday]}</TableCell>
+                    <TableCell>{session.startTime}–{session.endTime}</TableCell>
+                    <TableCell>{session.location}</TableCell>
+                    <TableCell>{session.coach}</TableCell>
+                    <TableCell>{session.exceptions.length}</TableCell>
+                    <TableCell>
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(session)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Session</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete the {WEEKDAY_NAMES[session.weekday]} {session.startTime} session
+                                of {sportsById.get(session.sportId)?.name}? All its future occurrences will be removed.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteSession(session.id)}>
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SchedulePage;
@@ -0,0 +1,383 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useSportDetail, useMembers } from '@/hooks/useSportingClub';
+import { subscriptionInputSchema, SubscriptionFormValues } from '@/lib/schemas';
+import { calculateAge } from '@/lib/utils';
+import { STAFF_ROLE_LABELS } from '@/lib/staff';
+import QualificationBadge from '@/components/QualificationBadge';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Clock, ClipboardList, Trophy, UserCog, UserPlus, Users, X } from 'lucide-react';
+
+const SportDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { sport, siblings, staff, loading, error, isInitialized, subscribeMember, cancelSubscription } = useSportDetail(id);
+  const { members } = useMembers();
+
+  const form = useForm<SubscriptionFormValues>({
+    resolver: zodResolver(subscriptionInputSchema),
+    defaultValues: { memberId: '', sportId: id ?? '' },
+  });
+
+  const handleSubscribe = async ({ memberId }: SubscriptionFormValues) => {
+    const result = await subscribeMember(memberId);
+    if (result) {
+      form.reset({ memberId: '', sportId: id ?? '' });
+    }
+  };
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading && !sport) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        <span className="ml-2 text-muted-foreground">Loading sport...</span>
+      </div>
+    );
+  }
+
+  if (!sport) {
+    return (
+      <div className="text-center py-8">
+        <Trophy className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">Sport not found.</p>
+        <Button variant="link" asChild>
+          <Link to="/sports">Back to Sports</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const memberName = (memberId: string) => {
+    const member = members.find(m => m.id === memberId);
+    return member ? `${member.firstName} ${member.lastName}` : 'Unknown member';
+  };
+
+  // Members who neither hold a spot nor wait for one
+  const takenIds = new Set([...sport.subscriptions, ...sport.waitlist].map(sub => sub.memberId));
+  const availableMembers = members.filter(member => !takenIds.has(member.id));
+
+  const capacityPercent = sport.maxMembers
+    ? Math.min(100, Math.round((sport.memberCount / sport.maxMembers) * 100))
+    : null;
+  const gaugeColor = capacityPercent === null || capacityPercent < 80
+    ? 'bg-primary'
+    : capacityPercent < 100 ? 'bg-orange-500' : 'bg-destructive';
+
+  const roster = sport.subscriptions
+    .flatMap(subscription => {
+      const member = sport.members.find(m => m.id === subscription.memberId);
+      return member ? [{ member, subscription }] : [];
+    })
+    .sort((a, b) =>
+      `${a.member.lastName} ${a.member.firstName}`.localeCompare(`${b.member.lastName} ${b.member.firstName}`)
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            {sport.name}
+            <Badge variant="secondary">{sport.category}</Badge>
+          </h1>
+          <p className="text-muted-foreground">{sport.description}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild className="gap-2">
+            <Link to="/sports">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Sports
+            </Link>
+          </Button>
+          <Button variant="outline" asChild className="gap-2">
+            <Link to={`/rosters/${sport.id}`}>
+              <ClipboardList className="h-4 w-4" />
+              Printable Roster
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Capacity</CardTitle>
+            <CardDescription>
+              {sport.maxMembers === undefined
+                ? 'No member limit'
+                : `${sport.availableSpots} spot${sport.availableSpots !== 1 ? 's' : ''} left`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-3xl font-bold">
+              {sport.memberCount}
+              {sport.maxMembers !== undefined && (
+                <span className="text-lg font-normal text-muted-foreground"> / {sport.maxMembers}</span>
+              )}
+            </p>
+            {capacityPercent !== null && (
+              <div
+                className="h-3 w-full rounded-full bg-secondary overflow-hidden"
+                role="meter"
+                aria-valuemin={0}
+                aria-valuemax={sport.maxMembers}
+                aria-valuenow={sport.memberCount}
+                aria-label="Members against capacity"
+              >
+                <div className={`h-full ${gaugeColor}`} style={{ width: `${capacityPercent}%` }} />
+              </div>
+            )}
+            {sport.waitlist.length > 0 && (
+              <p className="text-sm text-orange-600">{sport.waitlist.length} waiting for a spot</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5" />
+              Subscribe a Member
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sport.archivedAt ? (
+              <p className="text-sm text-muted-foreground">
+                This sport was archived on {sport.archivedAt.toLocaleDateString()}. Restore it on
+                the <Link to="/sports" className="underline">Sports</Link> page to subscribe members again.
+              </p>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubscribe)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="memberId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Member *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a member" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {availableMembers.map((member) => (
+                              <SelectItem key={member.id} value={member.id}>
+                                {member.firstName} {member.lastName}{member.email && ` (${member.email})`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                  )}
+                />
+
+                {sport.availableSpots === 0 && (
+                  <p className="text-sm text-orange-600">
+                    This sport is full. The member will be added to the waitlist and promoted when a spot frees up.
+                  </p>
+                )}
+
+                <Button type="submit" disabled={form.formState.isSubmitting || availableMembers.length === 0}>
+                  Subscribe Member
+                </Button>
+              </form>
+            </Form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Roster ({roster.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {roster.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No active members.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Age</TableHead>
+                  <TableHead>Subscribed</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roster.map(({ member, subscription }) => (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/members/${member.id}`} className="hover:underline">
+                        {member.lastName}, {member.firstName}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>{calculateAge(member.dateOfBirth)}</TableCell>
+                    <TableCell>{subscription.subscriptionDate.toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Cancel Subscription</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to cancel {member.firstName} {member.lastName}'s subscription to {sport.name}?
+                              {sport.waitlist.length > 0 && ' The first member on the waitlist will take the spot.'}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => cancelSubscription(member.id)}>
+                              Cancel Subscription
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCog className="h-5 w-5" />
+              Coaches and Staff ({staff.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {staff.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                No staff assigned. Assign them on the <Link to="/staff" className="underline">Staff</Link> page.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {staff.map((staffMember) => (
+                  <li key={staffMember.id} className="text-sm space-y-1">
+                    <p>
+                      <span className="font-medium">{staffMember.firstName} {staffMember.lastName}</span>
+                      <span className="text-muted-foreground"> · {STAFF_ROLE_LABELS[staffMember.role]}</span>
+                    </p>
+                    <p className="text-muted-foreground">{staffMember.email} · {staffMember.phone}</p>
+                    {staffMember.qualifications.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {staffMember.qualifications.map((qualification) => (
+                          <QualificationBadge key={qualification.name} qualification={qualification} />
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Waitlist ({sport.waitlist.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sport.waitlist.length === 0 ? (
+              <p className="text-muted-foreground text-sm">Nobody is waiting for a spot.</p>
+            ) : (
+              <ol className="space-y-2">
+                {sport.waitlist.map((subscription, index) => (
+                  <li key={subscription.id} className="flex justify-between items-center text-sm">
+                    <span>
+                      <span className="text-muted-foreground">#{index + 1}</span>{' '}
+                      <Link to={`/members/${subscription.memberId}`} className="font-medium hover:underline">
+                        {memberName(subscription.memberId)}
+                      </Link>
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => cancelSubscription(subscription.memberId)}>
+                      Remove
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5" />
+              Other {sport.category}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {siblings.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No other sports in this category.</p>
+            ) : (
+              <ul className="space-y-2">
+                {siblings.map((sibling) => (
+                  <li key={sibling.id} className="text-sm">
+                    <Link to={`/sports/${sibling.id}`} className="font-medium hover:underline">
+                      {sibling.name}
+                    </Link>
+                    <p className="text-muted-foreground">{sibling.description}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SportDetailPage;
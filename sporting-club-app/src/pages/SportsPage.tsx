@@ -1,76 +1,107 @@
 import React, { useState } from 'react';
-import { useSports } from '@/hooks/useSportingClub';
-import { Button } from '@/components/ui/button';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useSports, useStaff, useSubscriptions } from '@/hooks/useSportingClub';
+import { DeleteImpact, SportingClubDB } from '@/lib/db';
+import { sportFormSchema, SportFormValues } from '@/lib/schemas';
+import { formatFee } from '@/lib/billing';
+import { Button, buttonVariants } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Plus, Trash2, Users } from 'lucide-react';
+import { Plus, Pencil, Trash2, Users, ClipboardList, Archive, ArchiveRestore } from 'lucide-react';
+
+const SPORT_CATEGORIES = ['Team Sports', 'Individual Sports', 'Racquet Sports', 'Water Sports', 'Combat Sports', 'Other'];
+
+const emptySportForm: SportFormValues = {
+  name: '',
+  description: '',
+  category: '',
+  maxMembers: '',
+  fee: '',
+  billingPeriod: 'one-off',
+};
 
 const SportsPage: React.FC = () => {
-  const { sports, addSport, deleteSport, loading, error, isInitialized } = useSports();
+  const {
+    sports, archivedSports, addSport, updateSport, archiveSport, restoreSport, purgeSport, getSportDeleteImpact, loading, error,
+    isInitialized,
+  } = useSports();
+  const { subscriptions, waitlist } = useSubscriptions();
+  const { staff, assignments } = useStaff();
   const [showForm, setShowForm] = useState(false);
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    category: '',
-    maxMembers: '',
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const form = useForm<SportFormValues, unknown, z.output<typeof sportFormSchema>>({
+    resolver: zodResolver(sportFormSchema),
+    defaultValues: emptySportForm,
   });
-  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [deleteImpact, setDeleteImpact] = useState<DeleteImpact | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const listedSports = showArchived ? archivedSports : sports;
 
-  const validateForm = () => {
-    const errors: Record<string, string> = {};
-    
-    if (!formData.name.trim()) {
-      errors.name = 'Sport name is required';
-    }
-    
-    if (!formData.description.trim()) {
-      errors.description = 'Description is required';
-    }
-    
-    if (!formData.category.trim()) {
-      errors.category = 'Category is required';
-    }
-
-    if (formData.maxMembers && isNaN(Number(formData.maxMembers))) {
-      errors.maxMembers = 'Max members must be a number';
+  const handleSubmit = async (sportData: z.output<typeof sportFormSchema>) => {
+    // maxMembers is spelled out on update so clearing the field removes an existing limit
+    const result = editingId
+      ? await updateSport(editingId, { maxMembers: undefined, ...sportData })
+      : await addSport(sportData);
+    if (result) {
+      resetForm();
     }
+  };
 
-    setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+  const handleEdit = (sport: SportingClubDB['sports']['value']) => {
+    form.reset({
+      name: sport.name,
+      description: sport.description,
+      category: sport.category,
+      maxMembers: sport.maxMembers?.toString() ?? '',
+      fee: sport.feeCents === undefined ? '' : (sport.feeCents / 100).toFixed(2),
+      billingPeriod: sport.billingPeriod ?? 'one-off',
+    });
+    setEditingId(sport.id);
+    setShowForm(true);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) return;
+  const handleDeleteDialogChange = async (open: boolean, id: string) => {
+    setDeleteImpact(null);
+    if (open) {
+      setDeleteImpact(await getSportDeleteImpact(id));
+    }
+  };
 
-    const sportData = {
-      name: formData.name.trim(),
-      description: formData.description.trim(),
-      category: formData.category.trim(),
-      ...(formData.maxMembers && { maxMembers: Number(formData.maxMembers) }),
-    };
+  const handleArchive = async (id: string) => {
+    await archiveSport(id);
+  };
 
-    const result = await addSport(sportData);
-    if (result) {
-      setFormData({ name: '', description: '', category: '', maxMembers: '' });
-      setFormErrors({});
-      setShowForm(false);
-    }
+  const handleRestore = async (id: string) => {
+    await restoreSport(id);
   };
 
-  const handleDelete = async (id: string, name: string) => {
-    await deleteSport(id);
+  const handlePurge = async (id: string) => {
+    await purgeSport(id);
   };
 
+  const getMemberCount = (sportId: string) => subscriptions.filter(sub => sub.sportId === sportId).length;
+
+  const getWaitlistCount = (sportId: string) => waitlist.filter(sub => sub.sportId === sportId).length;
+
+  const getCoachNames = (sportId: string) => assignments
+    .filter(assignment => assignment.sportId === sportId)
+    .flatMap(assignment => staff.filter(staffMember => staffMember.id === assignment.staffId))
+    .map(staffMember => `${staffMember.firstName} ${staffMember.lastName}`)
+    .join(', ');
+
+  const getFreeSpots = (sportId: string, maxMembers: number) => Math.max(0, maxMembers - getMemberCount(sportId));
+
   const resetForm = () => {
-    setFormData({ name: '', description: '', category: '', maxMembers: '' });
-    setFormErrors({});
+    form.reset(emptySportForm);
+    setEditingId(null);
     setShowForm(false);
   };
 
@@ -105,87 +136,148 @@ const SportsPage: React.FC = () => {
           <h1 className="text-3xl font-bold tracking-tight">Sports</h1>
           <p className="text-muted-foreground">Manage sports offered by your club</p>
         </div>
-        <Button onClick={() => setShowForm(!showForm)} className="gap-2">
-          <Plus className="h-4 w-4" />
-          {showForm ? 'Cancel' : 'Add Sport'}
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild className="gap-2">
+            <Link to="/rosters">
+              <ClipboardList className="h-4 w-4" />
+              Rosters
+            </Link>
+          </Button>
+          <Button onClick={() => (showForm ? resetForm() : setShowForm(true))} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {showForm ? 'Cancel' : 'Add Sport'}
+          </Button>
+        </div>
       </div>
 
-      {/* Add Sport Form */}
+      {/* Add / Edit Sport Form */}
       {showForm && (
         <Card>
           <CardHeader>
-            <CardTitle>Add New Sport</CardTitle>
-            <CardDescription>Create a new sport for your club members</CardDescription>
+            <CardTitle>{editingId ? 'Edit Sport' : 'Add New Sport'}</CardTitle>
+            <CardDescription>
+              {editingId ? 'Update the details of this sport' : 'Create a new sport for your club members'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Sport Name *</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="e.g., Football"
-                    className={formErrors.name ? 'border-destructive' : ''}
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sport Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., Football" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  {formErrors.name && <p className="text-sm text-destructive">{formErrors.name}</p>}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="category">Category *</Label>
-                  <Select value={formData.category} onValueChange={(value) => setFormData({ ...formData, category: value })}>
-                    <SelectTrigger className={formErrors.category ? 'border-destructive' : ''}>
-                      <SelectValue placeholder="Select category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Team Sports">Team Sports</SelectItem>
-                      <SelectItem value="Individual Sports">Individual Sports</SelectItem>
-                      <SelectItem value="Racquet Sports">Racquet Sports</SelectItem>
-                      <SelectItem value="Water Sports">Water Sports</SelectItem>
-                      <SelectItem value="Combat Sports">Combat Sports</SelectItem>
-                      <SelectItem value="Other">Other</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {formErrors.category && <p className="text-sm text-destructive">{formErrors.category}</p>}
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select category" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {SPORT_CATEGORIES.map((category) => (
+                              <SelectItem key={category} value={category}>{category}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description *</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Brief description of the sport"
-                  className={formErrors.description ? 'border-destructive' : ''}
-                  rows={3}
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description *</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Brief description of the sport" rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-                {formErrors.description && <p className="text-sm text-destructive">{formErrors.description}</p>}
-              </div>
 
-              <div className="md:w-1/2 space-y-2">
-                <Label htmlFor="maxMembers">Max Members (Optional)</Label>
-                <Input
-                  id="maxMembers"
-                  type="number"
-                  value={formData.maxMembers}
-                  onChange={(e) => setFormData({ ...formData, maxMembers: e.target.value })}
-                  placeholder="e.g., 25"
-                  min="1"
-                  className={formErrors.maxMembers ? 'border-destructive' : ''}
-                />
-                {formErrors.maxMembers && <p className="text-sm text-destructive">{formErrors.maxMembers}</p>}
-              </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="maxMembers"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Members (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 25" min="1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="fee"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fee (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 30.00" min="0.01" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="billingPeriod"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Billing Period</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="one-off">One-off</SelectItem>
+                            <SelectItem value="monthly">Monthly</SelectItem>
+                            <SelectItem value="annual">Annual</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
 
-              <div className="flex gap-2">
-                <Button type="submit">Add Sport</Button>
-                <Button type="button" variant="outline" onClick={resetForm}>
-                  Cancel
-                </Button>
-              </div>
-            </form>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {editingId ? 'Save Changes' : 'Add Sport'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
           </CardContent>
         </Card>
       )}
@@ -193,10 +285,21 @@ const SportsPage: React.FC = () => {
       {/* Sports List */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Users className="h-5 w-5" />
-            All Sports ({sports.length})
-          </CardTitle>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              {showArchived ? `Archived Sports (${archivedSports.length})` : `All Sports (${sports.length})`}
+            </CardTitle>
+            <Select value={showArchived ? 'archived' : 'current'} onValueChange={(value) => setShowArchived(value === 'archived')}>
+              <SelectTrigger className="w-40" aria-label="Show sports">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">Current</SelectItem>
+                <SelectItem value="archived">Archived</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -204,7 +307,12 @@ const SportsPage: React.FC = () => {
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
               <span className="ml-2 text-muted-foreground">Loading sports...</span>
             </div>
-          ) : sports.length === 0 ? (
+          ) : showArchived && archivedSports.length === 0 ? (
+            <div className="text-center py-8">
+              <Archive className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No archived sports.</p>
+            </div>
+          ) : listedSports.length === 0 ? (
             <div className="text-center py-8">
               <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground">No sports added yet.</p>
@@ -212,32 +320,90 @@ const SportsPage: React.FC = () => {
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {sports.map((sport) => (
+              {listedSports.map((sport) => (
                 <Card key={sport.id} className="hover:shadow-md transition-shadow">
                   <CardHeader className="pb-3">
                     <div className="flex justify-between items-start">
-                      <CardTitle className="text-lg">{sport.name}</CardTitle>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete Sport</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Are you sure you want to delete "{sport.name}"? This action cannot be undone.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction onClick={() => handleDelete(sport.id, sport.name)}>
-                              Delete
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
+                      <CardTitle className="text-lg">
+                        <Link to={`/sports/${sport.id}`} className="hover:underline">
+                          {sport.name}
+                        </Link>
+                      </CardTitle>
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link to={`/rosters/${sport.id}`} aria-label={`${sport.name} roster`}>
+                            <ClipboardList className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        {sport.archivedAt ? (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => handleRestore(sport.id)} aria-label={`Restore ${sport.name}`}>
+                              <ArchiveRestore className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog onOpenChange={(open) => handleDeleteDialogChange(open, sport.id)}>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" aria-label={`Purge ${sport.name}`}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Purge Sport</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Permanently delete "{sport.name}"?{' '}
+                                    {deleteImpact === null
+                                      ? 'Checking subscriptions...'
+                                      : `${deleteImpact.active + deleteImpact.waitlisted + deleteImpact.cancelled} subscription(s) with their payments will be deleted,`}
+                                    {' '}together with the sport's sessions, attendance, staff assignments and bookings.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    className={buttonVariants({ variant: 'destructive' })}
+                                    onClick={() => handlePurge(sport.id)}
+                                  >
+                                    Purge
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </>
+                        ) : (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(sport)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog onOpenChange={(open) => handleDeleteDialogChange(open, sport.id)}>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" aria-label={`Archive ${sport.name}`}>
+                                  <Archive className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Archive Sport</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Archive "{sport.name}"?{' '}
+                                    {deleteImpact === null
+                                      ? 'Checking subscriptions...'
+                                      : deleteImpact.active + deleteImpact.waitlisted > 0
+                                      ? `${deleteImpact.active} active subscription(s) and ${deleteImpact.waitlisted} waitlist entr${deleteImpact.waitlisted === 1 ? 'y' : 'ies'} will be cancelled.`
+                                      : 'There are no active subscriptions to cancel.'}
+                                    {' '}The sport and its subscription history are kept under "Archived", where it can be restored or purged.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleArchive(sport.id)}>
+                                    Archive
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </>
+                        )}
+                      </div>
                     </div>
                     <Badge variant="secondary" className="w-fit">
                       {sport.category}
@@ -245,13 +411,31 @@ const SportsPage: React.FC = () => {
                   </CardHeader>
                   <CardContent>
                     <p className="text-muted-foreground text-sm mb-3">{sport.description}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Members: {getMemberCount(sport.id)}
+                      {sport.maxMembers && ` / ${sport.maxMembers}`}
+                    </p>
                     {sport.maxMembers && (
+                      <p className={`text-sm ${getFreeSpots(sport.id, sport.maxMembers) === 0 ? 'text-orange-600' : 'text-muted-foreground'}`}>
+                        {getFreeSpots(sport.id, sport.maxMembers) === 0
+                          ? 'Full'
+                          : `${getFreeSpots(sport.id, sport.maxMembers)} spot${getFreeSpots(sport.id, sport.maxMembers) !== 1 ? 's' : ''} left`}
+                      </p>
+                    )}
+                    {getWaitlistCount(sport.id) > 0 && (
                       <p className="text-sm text-muted-foreground">
-                        Max Members: {sport.maxMembers}
+                        Waitlist: {getWaitlistCount(sport.id)}
                       </p>
                     )}
+                    {formatFee(sport) && (
+                      <p className="text-sm text-muted-foreground">Fee: {formatFee(sport)}</p>
+                    )}
+                    {getCoachNames(sport.id) && (
+                      <p className="text-sm text-muted-foreground">Staff: {getCoachNames(sport.id)}</p>
+                    )}
                     <p className="text-xs text-muted-foreground mt-2">
                       Added: {sport.createdAt.toLocaleDateString()}
+                      {sport.archivedAt && ` · Archived: ${sport.archivedAt.toLocaleDateString()}`}
                     </p>
                   </CardContent>
                 </Card>
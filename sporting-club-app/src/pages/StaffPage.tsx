@@ -0,0 +1,447 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useSports, useStaff } from '@/hooks/useSportingClub';
+import { SportingClubDB } from '@/lib/db';
+import { staffFormSchema, StaffFormValues, STAFF_ROLES } from '@/lib/schemas';
+import { CERTIFICATION_WARNING_DAYS, findExpiringQualifications, STAFF_ROLE_LABELS } from '@/lib/staff';
+import QualificationBadge from '@/components/QualificationBadge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { AlertTriangle, Award, Mail, Pencil, Phone, Plus, Trash2, UserCog, X } from 'lucide-react';
+
+type StaffMember = SportingClubDB['staff']['value'];
+
+const emptyStaffForm: StaffFormValues = {
+  firstName: '',
+  lastName: '',
+  role: 'coach',
+  email: '',
+  phone: '',
+  qualifications: [],
+};
+
+const StaffPage: React.FC = () => {
+  const {
+    staff, assignments, loading, error, isInitialized,
+    addStaff, updateStaff, deleteStaff, assignToSport, unassignFromSport,
+  } = useStaff();
+  const { sports } = useSports();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const form = useForm<StaffFormValues, unknown, z.output<typeof staffFormSchema>>({
+    resolver: zodResolver(staffFormSchema),
+    defaultValues: emptyStaffForm,
+  });
+  const qualifications = useFieldArray({ control: form.control, name: 'qualifications' });
+
+  const handleSubmit = async (staffData: z.output<typeof staffFormSchema>) => {
+    const result = editingId
+      ? await updateStaff(editingId, staffData)
+      : await addStaff(staffData);
+    if (result) {
+      resetForm();
+    }
+  };
+
+  const handleEdit = (staffMember: StaffMember) => {
+    form.reset({
+      firstName: staffMember.firstName,
+      lastName: staffMember.lastName,
+      role: staffMember.role,
+      email: staffMember.email,
+      phone: staffMember.phone,
+      qualifications: staffMember.qualifications.map(qualification => ({
+        name: qualification.name,
+        expiresAt: qualification.expiresAt?.toISOString().slice(0, 10) ?? '',
+      })),
+    });
+    setEditingId(staffMember.id);
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    form.reset(emptyStaffForm);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const sportsById = new Map(sports.map(sport => [sport.id, sport]));
+  const getAssignedSports = (staffId: string) => assignments
+    .filter(assignment => assignment.staffId === staffId)
+    .flatMap(assignment => sportsById.get(assignment.sportId) ?? [])
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const expiring = findExpiringQualifications(staff);
+
+  if (!isInitialized) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Initializing database...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Staff</h1>
+          <p className="text-muted-foreground">Coaches and volunteers who run your sports</p>
+        </div>
+        <Button onClick={() => (showForm ? resetForm() : setShowForm(true))} className="gap-2">
+          <Plus className="h-4 w-4" />
+          {showForm ? 'Cancel' : 'Add Staff'}
+        </Button>
+      </div>
+
+      {/* Add / Edit Staff Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Staff Member' : 'Add New Staff Member'}</CardTitle>
+            <CardDescription>
+              {editingId ? 'Update contact details and qualifications' : 'Record a coach or volunteer and their qualifications'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="John" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="lastName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Doe" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email *</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="john.doe@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone *</FormLabel>
+                        <FormControl>
+                          <Input type="tel" placeholder="+1 (555) 123-4567" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Role *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {STAFF_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm font-medium">Qualifications</p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => qualifications.append({ name: '', expiresAt: '' })}
+                      className="gap-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add Qualification
+                    </Button>
+                  </div>
+                  {qualifications.fields.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No qualifications recorded.</p>
+                  )}
+                  {qualifications.fields.map((qualificationField, index) => (
+                    <div key={qualificationField.id} className="grid grid-cols-[1fr_auto_auto] gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`qualifications.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="e.g., UEFA C licence, First aid" aria-label="Qualification" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`qualifications.${index}.expiresAt`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input type="date" aria-label="Expiry date (optional)" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => qualifications.remove(index)}
+                        aria-label="Remove qualification"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {editingId ? 'Save Changes' : 'Add Staff'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Certifications needing attention */}
+      {expiring.length > 0 && (
+        <Card className="border-orange-500">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-orange-600">
+              <AlertTriangle className="h-5 w-5" />
+              Certifications to Renew ({expiring.length})
+            </CardTitle>
+            <CardDescription>Expired or expiring within {CERTIFICATION_WARNING_DAYS} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {expiring.map(({ staffMember, qualification, status }) => (
+                <li key={`${staffMember.id}/${qualification.name}`} className="flex justify-between items-center text-sm">
+                  <span>
+                    <span className="font-medium">{staffMember.firstName} {staffMember.lastName}</span>
+                    <span className="text-muted-foreground"> · {qualification.name}</span>
+                  </span>
+                  <span className={status === 'expired' ? 'text-destructive' : 'text-orange-600'}>
+                    {status === 'expired' ? 'Expired' : 'Expires'} {qualification.expiresAt?.toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Staff List */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCog className="h-5 w-5" />
+            All Staff ({staff.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              <span className="ml-2 text-muted-foreground">Loading staff...</span>
+            </div>
+          ) : staff.length === 0 ? (
+            <div className="text-center py-8">
+              <UserCog className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No staff added yet.</p>
+              <p className="text-sm text-muted-foreground">Click "Add Staff" to get started.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {staff.map((staffMember) => {
+                const assignedSports = getAssignedSports(staffMember.id);
+                const assignableSports = sports.filter(sport => !assignedSports.includes(sport));
+                return (
+                  <Card key={staffMember.id} className="hover:shadow-md transition-shadow">
+                    <CardHeader className="pb-3">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <CardTitle className="text-lg">{staffMember.firstName} {staffMember.lastName}</CardTitle>
+                          <Badge variant="secondary" className="w-fit mt-1">{STAFF_ROLE_LABELS[staffMember.role]}</Badge>
+                        </div>
+                        <div className="flex">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(staffMember)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Staff Member</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{staffMember.firstName} {staffMember.lastName}"?
+                                  They will be removed from {assignedSports.length} sport{assignedSports.length !== 1 ? 's' : ''}.
+                                  This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => deleteStaff(staffMember.id)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Mail className="h-4 w-4" />
+                          <span className="truncate">{staffMember.email}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Phone className="h-4 w-4" />
+                          <span>{staffMember.phone}</span>
+                        </div>
+                      </div>
+
+                      {staffMember.qualifications.length > 0 && (
+                        <div className="space-y-1">
+                          <p className="flex items-center gap-2 text-sm font-medium">
+                            <Award className="h-4 w-4" />
+                            Qualifications
+                          </p>
+                          <div className="flex flex-wrap gap-1">
+                            {staffMember.qualifications.map((qualification) => (
+                              <QualificationBadge key={qualification.name} qualification={qualification} />
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium">Sports</p>
+                        {assignedSports.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">Not assigned to any sport.</p>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {assignedSports.map((sport) => (
+                              <Badge key={sport.id} variant="outline" className="gap-1">
+                                <Link to={`/sports/${sport.id}`} className="hover:underline">{sport.name}</Link>
+                                <button
+                                  type="button"
+                                  onClick={() => unassignFromSport(staffMember.id, sport.id)}
+                                  aria-label={`Remove from ${sport.name}`}
+                                  className="hover:text-destructive"
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {assignableSports.length > 0 && (
+                          <Select value="" onValueChange={(sportId) => assignToSport(staffMember.id, sportId)}>
+                            <SelectTrigger className="h-8 text-sm" aria-label="Assign to sport">
+                              <SelectValue placeholder="Assign to sport" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {assignableSports.map((sport) => (
+                                <SelectItem key={sport.id} value={sport.id}>{sport.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StaffPage;
@@ -1,73 +1,103 @@
-import React, { useState, useEffect } from 'react';
-import { useSubscriptions, useMembers, useSports } from '@/hooks/useSportingClub';
-import { sportingClubService } from '@/lib/db';
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useSubscriptions, useMembers, useSports, useBalances, useClubCache } from '@/hooks/useSportingClub';
+import { selectMemberWithSports, selectSubscriptionHistory } from '@/lib/clubStore';
+import { subscriptionInputSchema, SubscriptionFormValues, paymentFormSchema, PaymentFormValues, PAYMENT_METHODS } from '@/lib/schemas';
+import { formatMoney, PAYMENT_GRACE_DAYS, PAYMENT_METHOD_LABELS } from '@/lib/billing';
+import { toCalendarDay } from '@/lib/schedule';
+import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Plus, UserCheck, X, Users, Trophy } from 'lucide-react';
+import { Plus, UserCheck, X, Users, Trophy, History, Clock, Banknote, AlertTriangle } from 'lucide-react';
 
 interface MemberWithSports {
   id: string;
   firstName: string;
   lastName: string;
-  email: string;
+  email?: string;
   sports: Array<{ id: string; name: string; category: string }>;
+  pastPeriods: Array<{ sportId: string; sportName: string; startDate: Date; endDate: Date }>;
 }
 
+const today = () => toCalendarDay(new Date());
+
+const emptyPaymentForm = (): PaymentFormValues => ({
+  memberId: '',
+  subscriptionId: '',
+  amount: '',
+  paidAt: today(),
+  method: 'cash',
+  reference: '',
+});
+
 const SubscriptionsPage: React.FC = () => {
-  const { subscriptions, subscribeMemberToSport, cancelSubscription, loading: subscriptionsLoading, error, isInitialized } = useSubscriptions();
+  const { subscriptions, waitlist, subscribeMemberToSport, cancelSubscription, loading: subscriptionsLoading, error: subscriptionsError, isInitialized } = useSubscriptions();
   const { members, loading: membersLoading } = useMembers();
   const { sports, loading: sportsLoading } = useSports();
+  const { balances, recordPayment, error: balancesError } = useBalances();
+  const cache = useClubCache();
+  const error = subscriptionsError ?? balancesError;
   
   const [showForm, setShowForm] = useState(false);
-  const [selectedMember, setSelectedMember] = useState('');
-  const [selectedSport, setSelectedSport] = useState('');
-  const [membersWithSports, setMembersWithSports] = useState<MemberWithSports[]>([]);
-  const [formError, setFormError] = useState('');
-
-  // Load members with their sports
-  useEffect(() => {
-    const loadMembersWithSports = async () => {
-      if (!isInitialized || members.length === 0) return;
-
-      const membersData = await Promise.all(
-        members.map(async (member) => {
-          const memberWithSports = await sportingClubService.getMemberWithSports(member.id);
-          return {
-            id: member.id,
-            firstName: member.firstName,
-            lastName: member.lastName,
-            email: member.email,
-            sports: memberWithSports?.sports?.filter(sport => sport !== undefined).map(sport => ({
-              id: sport.id,
-              name: sport.name,
-              category: sport.category
-            })) || [],
-          };
-        })
-      );
-      setMembersWithSports(membersData);
-    };
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const paymentForm = useForm<PaymentFormValues, unknown, z.output<typeof paymentFormSchema>>({
+    resolver: zodResolver(paymentFormSchema),
+    defaultValues: emptyPaymentForm(),
+  });
+  const paymentMember = paymentForm.watch('memberId');
+  const form = useForm<SubscriptionFormValues>({
+    resolver: zodResolver(subscriptionInputSchema),
+    defaultValues: { memberId: '', sportId: '' },
+  });
+  const selectedMember = form.watch('memberId');
+  const selectedSport = form.watch('sportId');
 
-    loadMembersWithSports();
-  }, [members, subscriptions, isInitialized]);
-
-  const handleSubscribe = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setFormError('');
+  // Members with their current sports and the subscription periods they ended
+  const membersWithSports = useMemo((): MemberWithSports[] => members.map((member) => {
+    const memberWithSports = selectMemberWithSports(cache, member.id);
+    const history = selectSubscriptionHistory(cache, member.id);
+    return {
+      id: member.id,
+      firstName: member.firstName,
+      lastName: member.lastName,
+      email: member.email,
+      sports: memberWithSports?.sports.map(sport => ({
+        id: sport.id,
+        name: sport.name,
+        category: sport.category
+      })) || [],
+      pastPeriods: history
+        .flatMap(({ subscription, sport, periods }) => periods
+          .filter((period): period is { startDate: Date; endDate: Date } => period.endDate !== undefined)
+          .map(period => ({
+            sportId: subscription.sportId,
+            sportName: sport?.name ?? 'Unknown sport',
+            startDate: period.startDate,
+            endDate: period.endDate,
+          })))
+        .sort((a, b) => b.endDate.getTime() - a.endDate.getTime()),
+    };
+  }), [members, cache]);
 
-    if (!selectedMember || !selectedSport) {
-      setFormError('Please select both a member and a sport');
-      return;
-    }
+  // Payments can be booked against any subscription to a sport with a fee, cancelled ones included
+  const paymentSubscriptions = useMemo(() => (
+    paymentMember
+      ? [...cache.subscriptions.values()].filter(sub =>
+          sub.memberId === paymentMember && sports.find(sport => sport.id === sub.sportId)?.feeCents !== undefined)
+      : []
+  ), [cache.subscriptions, paymentMember, sports]);
 
-    const result = await subscribeMemberToSport(selectedMember, selectedSport);
+  const handleSubscribe = async ({ memberId, sportId }: SubscriptionFormValues) => {
+    const result = await subscribeMemberToSport(memberId, sportId);
     if (result) {
-      setSelectedMember('');
-      setSelectedSport('');
-      setShowForm(false);
+      resetForm();
     }
   };
 
@@ -76,22 +106,62 @@ const SubscriptionsPage: React.FC = () => {
   };
 
   const resetForm = () => {
-    setSelectedMember('');
-    setSelectedSport('');
-    setFormError('');
+    form.reset({ memberId: '', sportId: '' });
     setShowForm(false);
   };
 
-  // Get available sports for selected member (sports they're not subscribed to)
+  const handleRecordPayment = async (payment: z.output<typeof paymentFormSchema>) => {
+    const result = await recordPayment(payment);
+    if (result) {
+      resetPaymentForm();
+    }
+  };
+
+  const resetPaymentForm = () => {
+    paymentForm.reset(emptyPaymentForm());
+    setShowPaymentForm(false);
+  };
+
+  const getOverdueCents = (memberId: string) => balances.get(memberId)?.overdueCents ?? 0;
+
+  const getBalanceCents = (memberId: string) => balances.get(memberId)?.balanceCents ?? 0;
+
+  const getSportName = (sportId: string) => sports.find(s => s.id === sportId)?.name ?? 'Unknown sport';
+
+  // Get available sports for selected member (sports they're not subscribed or waitlisted to)
   const getAvailableSports = () => {
     if (!selectedMember) return sports;
     
     const memberSports = membersWithSports.find(m => m.id === selectedMember)?.sports || [];
-    const memberSportIds = memberSports.map(s => s.id);
+    const memberSportIds = [
+      ...memberSports.map(s => s.id),
+      ...waitlist.filter(sub => sub.memberId === selectedMember).map(sub => sub.sportId),
+    ];
     
     return sports.filter(sport => !memberSportIds.includes(sport.id));
   };
 
+  // Free spots left in a sport, or null when it has no member limit
+  const getFreeSpots = (sportId: string) => {
+    const sport = sports.find(s => s.id === sportId);
+    if (sport?.maxMembers === undefined) return null;
+
+    const activeCount = subscriptions.filter(sub => sub.sportId === sportId).length;
+    return Math.max(0, sport.maxMembers - activeCount);
+  };
+
+  const getWaitlistPosition = (subscriptionId: string, sportId: string) =>
+    waitlist.filter(sub => sub.sportId === sportId).findIndex(sub => sub.id === subscriptionId) + 1;
+
+  const getMemberWaitlist = (memberId: string) =>
+    waitlist
+      .filter(sub => sub.memberId === memberId)
+      .map(sub => ({
+        sportId: sub.sportId,
+        sportName: sports.find(s => s.id === sub.sportId)?.name ?? 'Unknown sport',
+        position: getWaitlistPosition(sub.id, sub.sportId),
+      }));
+
   if (!isInitialized) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -125,14 +195,25 @@ const SubscriptionsPage: React.FC = () => {
           <h1 className="text-3xl font-bold tracking-tight">Subscriptions</h1>
           <p className="text-muted-foreground">Manage member sport subscriptions</p>
         </div>
-        <Button 
-          onClick={() => setShowForm(!showForm)} 
-          className="gap-2"
-          disabled={members.length === 0 || sports.length === 0}
-        >
-          <Plus className="h-4 w-4" />
-          {showForm ? 'Cancel' : 'Add Subscription'}
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => (showPaymentForm ? resetPaymentForm() : setShowPaymentForm(true))}
+            className="gap-2"
+            disabled={members.length === 0}
+          >
+            <Banknote className="h-4 w-4" />
+            {showPaymentForm ? 'Cancel' : 'Record Payment'}
+          </Button>
+          <Button 
+            onClick={() => (showForm ? resetForm() : setShowForm(true))} 
+            className="gap-2"
+            disabled={members.length === 0 || sports.length === 0}
+          >
+            <Plus className="h-4 w-4" />
+            {showForm ? 'Cancel' : 'Add Subscription'}
+          </Button>
+        </div>
       </div>
 
       {/* Show message if no members or sports */}
@@ -154,6 +235,160 @@ const SubscriptionsPage: React.FC = () => {
         </Card>
       )}
 
+      {/* Record Payment Form */}
+      {showPaymentForm && members.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Record Payment</CardTitle>
+            <CardDescription>Book a fee payment received in cash, by transfer or by card</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...paymentForm}>
+              <form onSubmit={paymentForm.handleSubmit(handleRecordPayment)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={paymentForm.control}
+                    name="memberId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Member *</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            paymentForm.setValue('subscriptionId', '');
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a member" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {members.map((member) => (
+                              <SelectItem key={member.id} value={member.id}>
+                                {member.firstName} {member.lastName}{member.email && ` (${member.email})`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={paymentForm.control}
+                    name="subscriptionId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Subscription *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a subscription" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {paymentSubscriptions.map((subscription) => (
+                              <SelectItem key={subscription.id} value={subscription.id}>
+                                {getSportName(subscription.sportId)}
+                                {subscription.status !== 'active' ? ` (${subscription.status})` : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={paymentForm.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amount *</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 30.00" min="0.01" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={paymentForm.control}
+                    name="paidAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Paid On *</FormLabel>
+                        <FormControl>
+                          <Input type="date" max={today()} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={paymentForm.control}
+                    name="method"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Method *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {PAYMENT_METHODS.map((method) => (
+                              <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={paymentForm.control}
+                    name="reference"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reference</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Transfer or card reference" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {paymentMember && paymentSubscriptions.length === 0 && (
+                  <p className="text-sm text-orange-600">
+                    This member has no subscriptions to sports with a fee.
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={paymentForm.formState.isSubmitting}>
+                    Record Payment
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetPaymentForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Add Subscription Form */}
       {showForm && members.length > 0 && sports.length > 0 && (
         <Card>
@@ -162,63 +397,91 @@ const SubscriptionsPage: React.FC = () => {
             <CardDescription>Subscribe a member to a sport</CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubscribe} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Member *</label>
-                  <Select value={selectedMember} onValueChange={setSelectedMember}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a member" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {members.map((member) => (
-                        <SelectItem key={member.id} value={member.id}>
-                          {member.firstName} {member.lastName} ({member.email})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubscribe)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="memberId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Member *</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            form.setValue('sportId', '');
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a member" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {members.map((member) => (
+                              <SelectItem key={member.id} value={member.id}>
+                                {member.firstName} {member.lastName}{member.email && ` (${member.email})`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="sportId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sport *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a sport" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {getAvailableSports().map((sport) => (
+                              <SelectItem key={sport.id} value={sport.id}>
+                                {sport.name} ({sport.category}){getFreeSpots(sport.id) === 0 ? ' - Full' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
 
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Sport *</label>
-                  <Select value={selectedSport} onValueChange={setSelectedSport}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a sport" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getAvailableSports().map((sport) => (
-                        <SelectItem key={sport.id} value={sport.id}>
-                          {sport.name} ({sport.category})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                {selectedSport && getFreeSpots(selectedSport) === 0 && (
+                  <p className="text-sm text-orange-600">
+                    This sport is full. The member will be added to the waitlist and promoted when a spot frees up.
+                  </p>
+                )}
+
+                {selectedMember && getAvailableSports().length === 0 && (
+                  <p className="text-sm text-orange-600">
+                    This member is already subscribed to all available sports.
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <Button 
+                    type="submit" 
+                    disabled={form.formState.isSubmitting || (selectedMember !== '' && getAvailableSports().length === 0)}
+                  >
+                    Subscribe Member
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
                 </div>
-              </div>
-
-              {formError && (
-                <p className="text-sm text-destructive">{formError}</p>
-              )}
-
-              {selectedMember && getAvailableSports().length === 0 && (
-                <p className="text-sm text-orange-600">
-                  This member is already subscribed to all available sports.
-                </p>
-              )}
-
-              <div className="flex gap-2">
-                <Button 
-                  type="submit" 
-                  disabled={!selectedMember || !selectedSport || getAvailableSports().length === 0}
-                >
-                  Subscribe Member
-                </Button>
-                <Button type="button" variant="outline" onClick={resetForm}>
-                  Cancel
-                </Button>
-              </div>
-            </form>
+              </form>
+            </Form>
           </CardContent>
         </Card>
       )}
@@ -246,22 +509,43 @@ const SubscriptionsPage: React.FC = () => {
           ) : (
             <div className="space-y-4">
               {membersWithSports.map((member) => (
-                <Card key={member.id} className="border-l-4 border-l-primary">
+                <Card
+                  key={member.id}
+                  className={`border-l-4 ${getOverdueCents(member.id) > 0 ? 'border-l-destructive' : 'border-l-primary'}`}
+                >
                   <CardHeader className="pb-3">
                     <div className="flex justify-between items-start">
                       <div>
                         <CardTitle className="text-lg">
-                          {member.firstName} {member.lastName}
+                          <Link to={`/members/${member.id}`} className="hover:underline">
+                            {member.firstName} {member.lastName}
+                          </Link>
                         </CardTitle>
                         <p className="text-sm text-muted-foreground">{member.email}</p>
                       </div>
-                      <Badge variant="outline">
-                        {member.sports.length} sport{member.sports.length !== 1 ? 's' : ''}
-                      </Badge>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge variant="outline">
+                          {member.sports.length} sport{member.sports.length !== 1 ? 's' : ''}
+                        </Badge>
+                        {getOverdueCents(member.id) > 0 ? (
+                          <Badge
+                            variant="destructive"
+                            className="gap-1"
+                            title={`Unpaid more than ${PAYMENT_GRACE_DAYS} days after falling due`}
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            Overdue {formatMoney(getOverdueCents(member.id))}
+                          </Badge>
+                        ) : getBalanceCents(member.id) > 0 && (
+                          <Badge variant="secondary">
+                            Due {formatMoney(getBalanceCents(member.id))}
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent>
-                    {member.sports.length === 0 ? (
+                    {member.sports.length === 0 && getMemberWaitlist(member.id).length === 0 ? (
                       <p className="text-muted-foreground text-sm">Not subscribed to any sports</p>
                     ) : (
                       <div className="flex flex-wrap gap-2">
@@ -293,6 +577,55 @@ const SubscriptionsPage: React.FC = () => {
                             </Badge>
                           </div>
                         ))}
+                        {getMemberWaitlist(member.id).map((entry) => (
+                          <div key={entry.sportId} className="flex items-center gap-1">
+                            <Badge variant="outline" className="gap-1">
+                              <Clock className="h-3 w-3" />
+                              {entry.sportName} · waitlist #{entry.position}
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <button className="ml-1 hover:bg-destructive hover:text-destructive-foreground rounded-full p-0.5">
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Leave Waitlist</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Are you sure you want to remove {member.firstName} {member.lastName} from the {entry.sportName} waitlist?
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => handleCancelSubscription(member.id, entry.sportId)}>
+                                      Leave Waitlist
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </Badge>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {member.pastPeriods.length > 0 && (
+                      <div className="mt-4 border-t pt-3">
+                        <p className="text-xs font-medium text-muted-foreground mb-2 flex items-center gap-1">
+                          <History className="h-3 w-3" />
+                          Subscription history
+                        </p>
+                        <ul className="space-y-1">
+                          {member.pastPeriods.map((period) => (
+                            <li
+                              key={`${period.sportId}-${period.startDate.getTime()}`}
+                              className="text-xs text-muted-foreground"
+                            >
+                              <span className="font-medium text-foreground">{period.sportName}</span>
+                              {': '}
+                              {period.startDate.toLocaleDateString()} – {period.endDate.toLocaleDateString()}
+                            </li>
+                          ))}
+                        </ul>
                       </div>
                     )}
                   </CardContent>